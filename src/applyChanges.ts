@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { computeHunks, mergeHunks } from './changeHunks';
+import { Logger } from './logger';
+import { ZencoConfig } from './config';
+import { ZencoHistory } from './history';
+
+/**
+ * What a Zenco run was computed against, recorded when the run starts
+ */
+export interface RunSnapshot {
+    uri: vscode.Uri;
+    /** Document version at the time of the run */
+    version: number;
+    /** Document text the CLI processed */
+    originalContent: string;
+    /** Feature name, provider and model, recorded in the history when applied */
+    featureName: string;
+    provider: string;
+    model: string;
+}
+
+/**
+ * Record the state of a document for a run that is about to start
+ *
+ * @param profile - Profile the run uses, if not the active one
+ */
+export function createSnapshot(document: vscode.TextDocument, featureName: string, profile?: string): RunSnapshot {
+    const config = ZencoConfig.getConfig(document, profile);
+    return {
+        uri: document.uri,
+        version: document.version,
+        originalContent: document.getText(),
+        featureName,
+        provider: config.provider,
+        model: config.model
+    };
+}
+
+/**
+ * Write Zenco's output to a document.
+ *
+ * If the document was edited (or closed and reopened) since the run, the
+ * Zenco changes are merged onto its current text. When they overlap the
+ * user's edits nothing is written and the user is told why.
+ *
+ * @returns true if the document was updated
+ */
+export async function applyToDocument(snapshot: RunSnapshot, modifiedContent: string): Promise<boolean> {
+    let document: vscode.TextDocument;
+    try {
+        document = await vscode.workspace.openTextDocument(snapshot.uri);
+    } catch {
+        vscode.window.showErrorMessage(
+            'Could not apply Zenco changes: the document is no longer available (untitled documents are lost when closed).'
+        );
+        return false;
+    }
+
+    const currentContent = document.getText();
+    let newContent = modifiedContent;
+
+    // Versions restart when a document is reopened, so the text is what decides divergence
+    if (currentContent !== snapshot.originalContent) {
+        Logger.getInstance().info(
+            `${snapshot.uri.toString()} changed since the run (version ${snapshot.version} -> ${document.version}), merging`
+        );
+
+        const merged = mergeHunks(
+            snapshot.originalContent,
+            currentContent,
+            computeHunks(snapshot.originalContent, modifiedContent)
+        );
+
+        if (merged.conflicts.length > 0) {
+            const lines = merged.conflicts.map(hunk => hunk.originalStart + 1).join(', ');
+            vscode.window.showErrorMessage(
+                `Zenco changes were not applied: ${merged.conflicts.length} of them overlap edits you made ` +
+                `after the run (around line(s) ${lines}). Run Zenco again on the current version of the file.`
+            );
+            return false;
+        }
+
+        newContent = merged.text;
+        vscode.window.showInformationMessage(
+            'The file changed after Zenco ran, so its changes were merged onto your edits.'
+        );
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = new vscode.Range(
+        document.positionAt(0),
+        document.positionAt(currentContent.length)
+    );
+
+    edit.replace(document.uri, fullRange, newContent);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        return false;
+    }
+
+    ZencoHistory.getInstance()?.record({
+        uri: document.uri,
+        feature: snapshot.featureName,
+        provider: snapshot.provider,
+        model: snapshot.model,
+        before: currentContent,
+        after: newContent
+    });
+
+    return true;
+}
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import { ZencoFeature } from './features';
+import { ZencoResult } from './zencoRunner';
+import { ZencoConfig } from './config';
+import { ProjectConfig } from './projectConfig';
+import { SUPPORTED_EXTENSIONS, isFeatureSupported, languageOfFile } from './languages';
+import { applyToDocument, createSnapshot, RunSnapshot } from './applyChanges';
+import { DiffViewer } from './diffViewer';
+import { ZencoResultsPanel } from './resultsPanel';
+import { ZencoUsage, formatCost } from './usage';
+
+/**
+ * Source files Zenco can process
+ */
+export const SUPPORTED_FILES_GLOB = `**/*.{${SUPPORTED_EXTENSIONS.join(',')}}`;
+
+export function isSupportedFile(uri: vscode.Uri): boolean {
+    return languageOfFile(uri) !== undefined;
+}
+
+/**
+ * Folders that never contain code worth processing
+ */
+const DEFAULT_EXCLUDE_GLOB = '**/{node_modules,.git,.venv,venv,env,__pycache__,dist,build,out,.tox}/**';
+
+/**
+ * Outcome of processing one file in a bulk run
+ */
+export interface BulkFileResult {
+    uri: vscode.Uri;
+    result: ZencoResult;
+    snapshot?: RunSnapshot;
+}
+
+/**
+ * A file the run changed: its snapshot and the content Zenco produced for it
+ */
+interface ChangedFile {
+    uri: vscode.Uri;
+    result: ZencoResult;
+    snapshot: RunSnapshot;
+    modifiedContent: string;
+}
+
+interface FileReviewItem extends vscode.QuickPickItem {
+    fileResult: ChangedFile;
+}
+
+/**
+ * Find the files a bulk run should process
+ *
+ * @param base - Folder to search in (all workspace folders if omitted)
+ * @param glob - Pattern relative to `base` (defaults to every supported source file)
+ */
+export async function findFilesToProcess(base?: vscode.Uri, glob: string = SUPPORTED_FILES_GLOB): Promise<vscode.Uri[]> {
+    const include = base ? new vscode.RelativePattern(base, glob) : glob;
+    const files = await vscode.workspace.findFiles(include, DEFAULT_EXCLUDE_GLOB);
+    return files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Run a feature over many files with bounded parallelism, print a summary,
+ * then let the user review every changed file before anything is written
+ */
+export async function runFeatureOnFiles(
+    feature: ZencoFeature,
+    files: vscode.Uri[],
+    outputChannel: vscode.OutputChannel,
+    diffViewer: DiffViewer
+): Promise<void> {
+    // Files the project configuration excludes, or where the feature does not apply, are left out
+    const allowed = files.filter(uri =>
+        isFeatureSupported(feature.id, languageOfFile(uri)) && !ProjectConfig.checkAllowed(uri, [feature.id])
+    );
+    const skipped = files.length - allowed.length;
+    files = allowed;
+
+    if (files.length === 0) {
+        vscode.window.showWarningMessage(
+            skipped > 0
+                ? `No files to process: "${feature.name}" does not apply to any of the ${skipped} file(s) ` +
+                  'because of their language or the project\'s Zenco configuration.'
+                : 'No supported files found to process.'
+        );
+        return;
+    }
+
+    const budget = ZencoUsage.getInstance()?.checkBudget(files.length) ?? {};
+    if (budget.blocked) {
+        vscode.window.showErrorMessage(budget.blocked);
+        return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Run "${feature.name}" on ${files.length} file(s)?` +
+        `${skipped > 0 ? ` ${skipped} file(s) are skipped because of their language or the project's Zenco configuration.` : ''}` +
+        `${budget.estimatedCost !== undefined ? ` Estimated cost: ${formatCost(budget.estimatedCost)}, from this month's average per file.` : ''}` +
+        `${budget.warning ? ` ${budget.warning}` : ''}` +
+        ' Nothing is written until you review the results.',
+        { modal: true },
+        'Run'
+    );
+    if (confirm !== 'Run') {
+        return;
+    }
+
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Zenco: ${feature.name}`,
+        cancellable: true
+    }, (progress, token) => processFiles(feature, files, progress, token));
+
+    printSummary(feature, results, outputChannel);
+
+    const changed = results.flatMap(({ uri, result, snapshot }): ChangedFile[] =>
+        result.success && snapshot && result.modifiedContent !== undefined && result.modifiedContent !== snapshot.originalContent
+            ? [{ uri, result, snapshot, modifiedContent: result.modifiedContent }]
+            : []
+    );
+    const failed = results.filter(r => !r.result.success && r.result.status !== 'cancelled');
+
+    if (changed.length === 0) {
+        vscode.window.showInformationMessage(
+            `Zenco ${feature.name}: no changes in ${results.length} file(s)${failed.length ? `, ${failed.length} failed` : ''}.`
+        );
+        return;
+    }
+
+    await reviewAndApply(feature, changed, diffViewer);
+}
+
+async function processFiles(
+    feature: ZencoFeature,
+    files: vscode.Uri[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<BulkFileResult[]> {
+    const maxParallel = Math.max(1, ZencoConfig.getConfig().maxParallelRuns);
+    const results: BulkFileResult[] = [];
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < files.length && !token.isCancellationRequested) {
+            const uri = files[next++];
+            results.push(await processFile(feature, uri, token));
+
+            done++;
+            progress.report({
+                message: `${done}/${files.length} files`,
+                increment: 100 / files.length
+            });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(maxParallel, files.length) }, worker));
+    return results.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+}
+
+async function processFile(
+    feature: ZencoFeature,
+    uri: vscode.Uri,
+    token: vscode.CancellationToken
+): Promise<BulkFileResult> {
+    try {
+        // Opening the document (without showing it) means unsaved edits are processed too
+        const document = await vscode.workspace.openTextDocument(uri);
+        const snapshot = createSnapshot(document, feature.name, ZencoConfig.getPinnedProfile(feature.id, document));
+        const result = await feature.run(document, { token });
+
+        return { uri, result, snapshot };
+    } catch (error) {
+        return {
+            uri,
+            result: {
+                success: false,
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+            }
+        };
+    }
+}
+
+/**
+ * Append a per-file summary to the output channel (earlier runs are kept) and
+ * add every file's result to the results panel
+ */
+function printSummary(feature: ZencoFeature, results: BulkFileResult[], outputChannel: vscode.OutputChannel) {
+    outputChannel.appendLine(`\n=== Zenco: ${feature.name} on ${results.length} file(s) ===`);
+
+    for (const { uri, result } of results) {
+        if (result.status !== 'cancelled') {
+            ZencoResultsPanel.getInstance()?.add(feature.name, uri, result);
+        }
+
+        const file = vscode.workspace.asRelativePath(uri);
+        if (result.success) {
+            outputChannel.appendLine(`✔ ${file}: ${result.changes?.length ?? 0} change(s)`);
+        } else {
+            outputChannel.appendLine(`✖ ${file}: ${result.status === 'cancelled' ? 'cancelled' : result.error}`);
+        }
+    }
+
+    const succeeded = results.filter(r => r.result.success).length;
+    outputChannel.appendLine(`\n${succeeded} succeeded, ${results.length - succeeded} failed or cancelled.`);
+    outputChannel.appendLine('Changes per file are listed in the Zenco Results panel (Zenco: Show Results).');
+    outputChannel.show(true);
+}
+
+/**
+ * One review for the whole run: every changed file is listed (checked by
+ * default) and can be opened as a diff. Only checked files are written.
+ */
+async function reviewAndApply(feature: ZencoFeature, changed: ChangedFile[], diffViewer: DiffViewer) {
+    const openDiffButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('diff'),
+        tooltip: 'Open Diff'
+    };
+
+    const quickPick = vscode.window.createQuickPick<FileReviewItem>();
+    quickPick.title = `Zenco ${feature.name}: review ${changed.length} changed file(s)`;
+    quickPick.placeholder = 'Uncheck files you do not want to change, then press Enter to apply';
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = changed.map(fileResult => ({
+        label: vscode.workspace.asRelativePath(fileResult.uri),
+        description: `${fileResult.result.changes?.length ?? 0} change(s)`,
+        buttons: [openDiffButton],
+        fileResult
+    }));
+    quickPick.selectedItems = quickPick.items;
+
+    const accepted = await new Promise<readonly FileReviewItem[] | undefined>(resolve => {
+        quickPick.onDidTriggerItemButton(async ({ item }) => {
+            const { snapshot, modifiedContent } = item.fileResult;
+            await diffViewer.showDiff(snapshot.originalContent, modifiedContent, item.label, 'bulk');
+        });
+        quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => resolve(undefined));
+        quickPick.show();
+    });
+    quickPick.dispose();
+
+    if (!accepted || accepted.length === 0) {
+        vscode.window.showInformationMessage('No files were changed.');
+        return;
+    }
+
+    // Only these are saved, not other documents the user has unsaved edits in
+    const applied: vscode.TextDocument[] = [];
+    for (const { fileResult } of accepted) {
+        if (await applyToDocument(fileResult.snapshot, fileResult.modifiedContent)) {
+            applied.push(await vscode.workspace.openTextDocument(fileResult.uri));
+        }
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `✅ Zenco ${feature.name} applied to ${applied.length} of ${accepted.length} file(s). The files are not saved yet.`,
+        'Save All'
+    );
+    if (choice === 'Save All') {
+        await Promise.all(applied.map(document => document.save()));
+    }
+}
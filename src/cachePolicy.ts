@@ -0,0 +1,42 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Bookkeeping for one cached result
+ */
+export interface CacheEntry {
+    size: number;
+    lastUsed: number;
+}
+
+/**
+ * Key of a run: everything that determines the CLI's answer. The file name is
+ * included because the CLI detects the language from it, and the CLI version
+ * so that upgrading it doesn't serve results of the old version.
+ *
+ * @param cliArgs - Arguments as sent to the CLI: feature flags, provider, model, docstring style and strategy
+ */
+export function cacheKey(content: string, fileName: string, cliArgs: string[], cliVersion: string | undefined): string {
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify([content, path.basename(fileName), cliArgs, cliVersion ?? '']), 'utf8')
+        .digest('hex');
+}
+
+/**
+ * The keys to drop, least recently used first, to get the cache within `maxSize` bytes
+ */
+export function keysToEvict(entries: Map<string, CacheEntry>, maxSize: number): string[] {
+    let totalSize = [...entries.values()].reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+
+    const oldestFirst = [...entries].sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [key, entry] of oldestFirst) {
+        if (totalSize <= maxSize) {
+            break;
+        }
+        evicted.push(key);
+        totalSize -= entry.size;
+    }
+    return evicted;
+}
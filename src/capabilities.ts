@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CliCapabilities, capabilitiesFromHelp, missingOptions, parseCapabilities } from './cliCapabilities';
+import { SUPPORTED_SCHEMA_VERSION } from './protocol';
+import { Logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Capabilities as cached for one executable
+ */
+interface CachedCapabilities {
+    /** Version and modification time of the executable when it was queried, to notice upgrades */
+    version: string;
+    mtime: number;
+    capabilities: CliCapabilities;
+}
+
+const STORAGE_KEY = 'zenco.cliCapabilities';
+const QUERY_TIMEOUT_MS = 15_000;
+
+/**
+ * Which options the installed CLI supports, asked with `zenco capabilities --json`
+ * (or read from `zenco run --help` for CLIs without that command) and cached per
+ * resolved executable across sessions. Features whose options the CLI lacks are
+ * hidden, and runs that need them fail with a message naming what is missing.
+ */
+export class ZencoCapabilities {
+    private static instance: ZencoCapabilities | undefined;
+
+    private readonly _onDidChange = new vscode.EventEmitter<CliCapabilities | undefined>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private cache: Record<string, CachedCapabilities>;
+    private current: CliCapabilities | undefined;
+    private readonly queries = new Map<string, Promise<CliCapabilities | undefined>>();
+    // Executables already warned about a newer output format
+    private readonly warned = new Set<string>();
+
+    private constructor(private readonly state: vscode.Memento) {
+        this.cache = state.get<Record<string, CachedCapabilities>>(STORAGE_KEY, {});
+    }
+
+    static initialize(context: vscode.ExtensionContext): ZencoCapabilities {
+        ZencoCapabilities.instance = new ZencoCapabilities(context.globalState);
+        return ZencoCapabilities.instance;
+    }
+
+    static getInstance(): ZencoCapabilities | undefined {
+        return ZencoCapabilities.instance;
+    }
+
+    /**
+     * Capabilities of the executable used last, if known yet
+     */
+    get latest(): CliCapabilities | undefined {
+        return this.current;
+    }
+
+    /**
+     * Get the capabilities of an executable, querying it unless they are cached
+     *
+     * @param version - Version found by the installation check
+     * @returns undefined if the CLI could not be queried
+     */
+    async get(executable: string, version: string = 'unknown'): Promise<CliCapabilities | undefined> {
+        const mtime = modificationTime(executable);
+        const cached = this.cache[executable];
+        if (cached && cached.version === version && cached.mtime === mtime) {
+            this.setCurrent(executable, cached.capabilities);
+            return cached.capabilities;
+        }
+
+        let query = this.queries.get(executable);
+        if (!query) {
+            query = queryCapabilities(executable, version).finally(() => this.queries.delete(executable));
+            this.queries.set(executable, query);
+        }
+
+        const capabilities = await query;
+        if (capabilities) {
+            this.cache[executable] = { version, mtime, capabilities };
+            Promise.resolve(this.state.update(STORAGE_KEY, this.cache)).catch(() => undefined);
+            this.setCurrent(executable, capabilities);
+        }
+        return capabilities;
+    }
+
+    /**
+     * Whether the CLI used last supports these options (true while that is unknown)
+     */
+    supports(options: string[]): boolean {
+        return !this.current || missingOptions(this.current, options).length === 0;
+    }
+
+    /**
+     * Forget everything, e.g. after the CLI was installed or upgraded
+     */
+    invalidate(): void {
+        this.cache = {};
+        this.current = undefined;
+        Promise.resolve(this.state.update(STORAGE_KEY, undefined)).catch(() => undefined);
+        this._onDidChange.fire(undefined);
+    }
+
+    private setCurrent(executable: string, capabilities: CliCapabilities): void {
+        if (capabilities.schemaVersion > SUPPORTED_SCHEMA_VERSION && !this.warned.has(executable)) {
+            this.warned.add(executable);
+            vscode.window.showWarningMessage(
+                `Zenco CLI ${capabilities.version} writes results in format version ${capabilities.schemaVersion}, but this ` +
+                `extension understands up to version ${SUPPORTED_SCHEMA_VERSION}. Update the Zenco extension if results look wrong.`
+            );
+        }
+
+        if (this.current !== capabilities) {
+            this.current = capabilities;
+            this._onDidChange.fire(capabilities);
+        }
+    }
+}
+
+/**
+ * Explain that a run needs options the installed CLI lacks
+ */
+export function describeMissingOptions(capabilities: CliCapabilities, executable: string, missing: string[]): string {
+    return `This needs a newer Zenco CLI: zenco ${capabilities.version} (${executable}) does not support ` +
+        `${missing.join(', ')}. Run "Zenco: Install/Reinstall CLI" to upgrade it.`;
+}
+
+async function queryCapabilities(executable: string, version: string): Promise<CliCapabilities | undefined> {
+    const logger = Logger.getInstance();
+    const options = { timeout: QUERY_TIMEOUT_MS, windowsHide: true };
+
+    try {
+        const { stdout } = await execFileAsync(executable, ['capabilities', '--json'], options);
+        const reported = parseCapabilities(stdout);
+        if (reported) {
+            logger.info(`Zenco CLI ${reported.version} capabilities: ${reported.options.join(' ')}`);
+            return reported;
+        }
+    } catch {
+        // CLIs before the capabilities command reject it
+    }
+
+    try {
+        const { stdout } = await execFileAsync(executable, ['run', '--help'], options);
+        const inferred = capabilitiesFromHelp(version, stdout);
+        logger.info(`Zenco CLI ${version} has no capabilities command; options from --help: ${inferred.options.join(' ')}`);
+        return inferred;
+    } catch (error) {
+        logger.warn(`Could not query the capabilities of "${executable}": ${String(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Modification time of an executable given by path (0 for a bare command name)
+ */
+function modificationTime(executable: string): number {
+    try {
+        return fs.statSync(executable).mtimeMs;
+    } catch {
+        return 0;
+    }
+}
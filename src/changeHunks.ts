@@ -0,0 +1,465 @@
+/**
+ * A contiguous block of changed lines between two versions of a file.
+ * Line numbers are 0-based.
+ */
+export interface Hunk {
+    originalStart: number;
+    originalLines: string[];
+    modifiedStart: number;
+    modifiedLines: string[];
+}
+
+type EditOp = '=' | '-' | '+';
+
+/**
+ * Split text into lines, keeping any trailing '\r' so that joining
+ * with '\n' reproduces the input exactly
+ */
+export function splitLines(text: string): string[] {
+    return text.split('\n');
+}
+
+/**
+ * Compute the line hunks that turn `original` into `modified`
+ */
+export function computeHunks(original: string, modified: string): Hunk[] {
+    const a = splitLines(original);
+    const b = splitLines(modified);
+
+    // Trim the common prefix and suffix so the diff only works on the changed middle
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const ops = diffOps(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+    const hunks: Hunk[] = [];
+    let x = prefix;
+    let y = prefix;
+    let current: Hunk | null = null;
+
+    for (const op of ops) {
+        if (op === '=') {
+            if (current) {
+                hunks.push(current);
+                current = null;
+            }
+            x++;
+            y++;
+            continue;
+        }
+
+        if (!current) {
+            current = { originalStart: x, originalLines: [], modifiedStart: y, modifiedLines: [] };
+        }
+
+        if (op === '-') {
+            current.originalLines.push(a[x++]);
+        } else {
+            current.modifiedLines.push(b[y++]);
+        }
+    }
+
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
+
+/**
+ * Apply a subset of hunks (computed against `original`) and return the new text.
+ * Hunks that are left out keep their original lines.
+ */
+export function applyHunks(original: string, hunks: Hunk[]): string {
+    const lines = splitLines(original);
+    const sorted = [...hunks].sort((h1, h2) => h1.originalStart - h2.originalStart);
+
+    const result: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of sorted) {
+        result.push(...lines.slice(cursor, hunk.originalStart));
+        result.push(...hunk.modifiedLines);
+        cursor = hunk.originalStart + hunk.originalLines.length;
+    }
+
+    result.push(...lines.slice(cursor));
+    return result.join('\n');
+}
+
+/**
+ * Check whether a 1-based line reported by the CLI falls inside (or right next to) a hunk
+ */
+export function hunkContainsLine(hunk: Hunk, line: number): boolean {
+    const index = line - 1;
+    const inOriginal = index >= hunk.originalStart &&
+        index <= hunk.originalStart + Math.max(hunk.originalLines.length - 1, 0);
+    const inModified = index >= hunk.modifiedStart &&
+        index <= hunk.modifiedStart + Math.max(hunk.modifiedLines.length - 1, 0);
+    return inOriginal || inModified;
+}
+
+/**
+ * Myers O(ND) line diff. Returns the edit script as a list of operations.
+ */
+function diffOps(a: string[], b: string[]): EditOp[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+
+    if (max === 0) {
+        return [];
+    }
+
+    const offset = max;
+    const v = new Int32Array(2 * max + 2);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        // Only diagonals -d..d are reachable at this depth, so keep just that window
+        trace.push(v.slice(offset - d, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+            let y = x - k;
+
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(trace, n, m);
+            }
+        }
+    }
+
+    return backtrack(trace, n, m);
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+    const ops: EditOp[] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const window = trace[d];
+        // window[i] holds v[k] for k = i - d
+        const at = (k: number) => window[k + d];
+        const k = x - y;
+
+        let prevK: number;
+        if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+            prevK = k + 1;
+        } else {
+            prevK = k - 1;
+        }
+
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push('=');
+            x--;
+            y--;
+        }
+
+        if (d > 0) {
+            if (x === prevX) {
+                ops.push('+');
+                y--;
+            } else {
+                ops.push('-');
+                x--;
+            }
+        }
+
+        x = prevX;
+        y = prevY;
+    }
+
+    return ops.reverse();
+}
+
+/**
+ * Outcome of merging hunks onto text that has changed since they were computed
+ */
+export interface MergeResult {
+    text: string;
+    /** Hunks that overlap edits made since the hunks were computed and were not applied */
+    conflicts: Hunk[];
+}
+
+/**
+ * Three-way merge: apply `hunks` (computed against `base`) onto `current`, a
+ * later version of `base` with its own edits. Hunks that touch lines edited
+ * in `current` are reported as conflicts instead of being applied.
+ */
+export function mergeHunks(base: string, current: string, hunks: Hunk[]): MergeResult {
+    const edits = computeHunks(base, current);
+    const mapped: Hunk[] = [];
+    const conflicts: Hunk[] = [];
+
+    for (const hunk of hunks) {
+        const start = hunk.originalStart;
+        const end = start + hunk.originalLines.length;
+
+        // The same edit was already made in `current`
+        if (edits.some(edit => sameHunk(edit, hunk))) {
+            continue;
+        }
+
+        if (edits.some(edit => overlaps(edit, start, end))) {
+            conflicts.push(hunk);
+            continue;
+        }
+
+        // Shift by the lines added or removed by edits above this hunk
+        const offset = edits
+            .filter(edit => edit.originalStart + edit.originalLines.length <= start)
+            .reduce((sum, edit) => sum + edit.modifiedLines.length - edit.originalLines.length, 0);
+
+        mapped.push({ ...hunk, originalStart: start + offset });
+    }
+
+    return { text: applyHunks(current, mapped), conflicts };
+}
+
+function sameHunk(a: Hunk, b: Hunk): boolean {
+    return a.originalStart === b.originalStart &&
+        a.originalLines.join('\n') === b.originalLines.join('\n') &&
+        a.modifiedLines.join('\n') === b.modifiedLines.join('\n');
+}
+
+/**
+ * Whether an edit touches the base lines [start, end). Insertions count as
+ * touching when they land strictly inside the range, or at the same spot as
+ * another insertion.
+ */
+function overlaps(edit: Hunk, start: number, end: number): boolean {
+    const editStart = edit.originalStart;
+    const editEnd = editStart + edit.originalLines.length;
+
+    if (editStart === editEnd && start === end) {
+        return editStart === start;
+    }
+    if (editStart === editEnd) {
+        return editStart > start && editStart < end;
+    }
+    if (start === end) {
+        return start > editStart && start < editEnd;
+    }
+    return editStart < end && start < editEnd;
+}
+
+/**
+ * A hunk with a few unchanged lines around it (taken from the modified text),
+ * so it can still be found after the file has been edited elsewhere
+ */
+export interface ContextHunk extends Hunk {
+    contextBefore: string[];
+    contextAfter: string[];
+}
+
+/**
+ * Compute hunks like `computeHunks`, keeping `contextLines` of surrounding context
+ */
+export function computeContextHunks(original: string, modified: string, contextLines: number = 3): ContextHunk[] {
+    const b = splitLines(modified);
+
+    return computeHunks(original, modified).map(hunk => {
+        const modifiedEnd = hunk.modifiedStart + hunk.modifiedLines.length;
+        return {
+            ...hunk,
+            contextBefore: b.slice(Math.max(0, hunk.modifiedStart - contextLines), hunk.modifiedStart),
+            contextAfter: b.slice(modifiedEnd, modifiedEnd + contextLines)
+        };
+    });
+}
+
+/**
+ * Undo hunks that were applied some time ago on a file that may have changed since.
+ * Each hunk's modified lines are located by content (nearest to where they were
+ * written) and replaced by the original lines; hunks that cannot be found
+ * unambiguously are reported as conflicts and left alone.
+ */
+export function revertHunks(current: string, hunks: ContextHunk[]): MergeResult {
+    const lines = splitLines(current);
+    const located: { start: number; hunk: ContextHunk }[] = [];
+    const conflicts: Hunk[] = [];
+
+    for (const hunk of hunks) {
+        const start = locateHunk(lines, hunk);
+        const end = start === -1 ? -1 : start + hunk.modifiedLines.length;
+        const clashes = located.some(other =>
+            start < other.start + other.hunk.modifiedLines.length && other.start < end
+        );
+
+        if (start === -1 || clashes) {
+            conflicts.push(hunk);
+        } else {
+            located.push({ start, hunk });
+        }
+    }
+
+    // Replace from the bottom up so earlier positions stay valid
+    located.sort((x, y) => y.start - x.start);
+    for (const { start, hunk } of located) {
+        lines.splice(start, hunk.modifiedLines.length, ...hunk.originalLines);
+    }
+
+    return { text: lines.join('\n'), conflicts };
+}
+
+/**
+ * Find where a hunk's modified lines are in `lines`, or -1. Matches surrounded
+ * by as much of the recorded context as possible win; a pure deletion (no
+ * modified lines) needs at least one line of context to mark the spot.
+ */
+function locateHunk(lines: string[], hunk: ContextHunk): number {
+    const maxContext = Math.max(hunk.contextBefore.length, hunk.contextAfter.length);
+    const minContext = hunk.modifiedLines.length > 0 ? 0 : 1;
+
+    for (let context = maxContext; context >= minContext; context--) {
+        const before = hunk.contextBefore.slice(Math.max(0, hunk.contextBefore.length - context));
+        const after = hunk.contextAfter.slice(0, context);
+        const pattern = [...before, ...hunk.modifiedLines, ...after];
+        let best = -1;
+
+        for (let i = 0; i + pattern.length <= lines.length; i++) {
+            if (pattern.every((line, j) => lines[i + j] === line)) {
+                const start = i + before.length;
+                if (best === -1 || Math.abs(start - hunk.modifiedStart) < Math.abs(best - hunk.modifiedStart)) {
+                    best = start;
+                }
+            }
+        }
+
+        if (best !== -1) {
+            return best;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * A range of lines, 0-based with an exclusive end. An empty range marks the
+ * spot where lines were deleted.
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * The line ranges of `modified` that differ from `original`
+ */
+export function changedLineRanges(original: string, modified: string): LineRange[] {
+    return computeHunks(original, modified).map(hunk => ({
+        start: hunk.modifiedStart,
+        end: hunk.modifiedStart + hunk.modifiedLines.length
+    }));
+}
+
+/**
+ * Map line ranges of some text onto a later version of it (`hunks` turn the
+ * first version into the second). Lines the hunks replaced have no counterpart
+ * and are dropped, which can split a range in two.
+ */
+export function mapLineRanges(ranges: LineRange[], hunks: Hunk[]): LineRange[] {
+    const mapped: LineRange[] = [];
+
+    for (const range of ranges) {
+        if (range.start === range.end) {
+            const line = mapLine(range.start, hunks);
+            if (line !== undefined) {
+                mapped.push({ start: line, end: line });
+            }
+            continue;
+        }
+
+        let current: LineRange | undefined;
+        for (let line = range.start; line < range.end; line++) {
+            const target = mapLine(line, hunks);
+            if (target !== undefined && current && current.end === target) {
+                current.end++;
+            } else if (target !== undefined) {
+                current = { start: target, end: target + 1 };
+                mapped.push(current);
+            }
+        }
+    }
+
+    return mapped;
+}
+
+function mapLine(line: number, hunks: Hunk[]): number | undefined {
+    let offset = 0;
+
+    for (const hunk of hunks) {
+        const end = hunk.originalStart + hunk.originalLines.length;
+        if (line >= hunk.originalStart && line < end) {
+            return undefined;
+        }
+        if (end <= line) {
+            offset += hunk.modifiedLines.length - hunk.originalLines.length;
+        }
+    }
+
+    return line + offset;
+}
+
+/**
+ * Map a 0-based line of some text onto a later version of it, like the lines of
+ * `mapLineRanges`. A line the hunks replaced maps to the start of its replacement.
+ */
+export function followLine(line: number, hunks: Hunk[]): number {
+    let offset = 0;
+
+    for (const hunk of hunks) {
+        const end = hunk.originalStart + hunk.originalLines.length;
+        if (line >= hunk.originalStart && line < end) {
+            return hunk.modifiedStart;
+        }
+        if (end <= line) {
+            offset += hunk.modifiedLines.length - hunk.originalLines.length;
+        }
+    }
+
+    return line + offset;
+}
+
+/**
+ * Whether a hunk touches any of the ranges. Insertions and deletions count when
+ * they are next to a range, so e.g. a docstring added below a changed `def` line
+ * belongs to that change.
+ */
+export function hunkTouchesRanges(hunk: Hunk, ranges: LineRange[]): boolean {
+    const start = hunk.originalStart;
+    const end = start + hunk.originalLines.length;
+
+    return ranges.some(range =>
+        start === end || range.start === range.end
+            ? range.start <= end && start <= range.end
+            : start < range.end && range.start < end
+    );
+}
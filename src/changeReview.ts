@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { ZencoChange, ZencoResult } from './zencoRunner';
+import { Hunk, computeHunks, applyHunks, hunkContainsLine } from './changeHunks';
+
+/**
+ * A hunk together with the CLI changes that explain it
+ */
+export interface ReviewableHunk {
+    hunk: Hunk;
+    changes: ZencoChange[];
+}
+
+interface HunkPickItem extends vscode.QuickPickItem {
+    entry: ReviewableHunk;
+}
+
+/**
+ * Split a result into hunks and attach each reported change to the hunk it belongs to
+ */
+export function buildReviewableHunks(original: string, modified: string, changes: ZencoChange[] = []): ReviewableHunk[] {
+    const entries = computeHunks(original, modified).map(hunk => ({ hunk, changes: [] as ZencoChange[] }));
+
+    for (const change of changes) {
+        const match = entries.find(entry => hunkContainsLine(entry.hunk, change.line));
+        if (match) {
+            match.changes.push(change);
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Describe a hunk in one line for pickers and diagnostics
+ */
+export function describeHunk(entry: ReviewableHunk): string {
+    if (entry.changes.length > 0) {
+        return entry.changes.map(change => change.description).join('; ');
+    }
+
+    const removed = entry.hunk.originalLines.length;
+    const added = entry.hunk.modifiedLines.length;
+    return `${removed} line(s) removed, ${added} line(s) added`;
+}
+
+/**
+ * Let the user accept or reject each hunk of a result.
+ *
+ * @returns The content with only the accepted hunks applied, or undefined if the user cancelled
+ */
+export async function reviewChanges(result: ZencoResult): Promise<string | undefined> {
+    if (result.originalContent === undefined || result.modifiedContent === undefined) {
+        return undefined;
+    }
+
+    const entries = buildReviewableHunks(result.originalContent, result.modifiedContent, result.changes);
+
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('Zenco did not change anything in this file.');
+        return undefined;
+    }
+
+    const items: HunkPickItem[] = entries.map(entry => {
+        const types = Array.from(new Set(entry.changes.map(change => change.type.toUpperCase())));
+        const firstChanged = entry.hunk.modifiedLines.find(line => line.trim()) ??
+            entry.hunk.originalLines.find(line => line.trim()) ?? '';
+
+        return {
+            label: `Line ${entry.hunk.originalStart + 1}${types.length ? ` [${types.join(', ')}]` : ''}`,
+            description: describeHunk(entry),
+            detail: firstChanged.trim(),
+            picked: true,
+            entry
+        };
+    });
+
+    const accepted = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the changes to apply (unchecked changes are rejected)'
+    });
+
+    if (!accepted) {
+        return undefined;
+    }
+
+    return applyHunks(result.originalContent, accepted.map(item => item.entry.hunk));
+}
@@ -0,0 +1,111 @@
+/**
+ * Providers served by an OpenAI-compatible endpoint at `zenco.baseUrl` (Ollama,
+ * LM Studio, vLLM, ...). They don't need an API key.
+ */
+export const ENDPOINT_PROVIDERS = ['ollama', 'custom'];
+
+/**
+ * Environment variable the CLI reads the key from, per provider
+ */
+const API_KEY_ENV_VARS: Record<string, string> = {
+    groq: 'GROQ_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    custom: 'ZENCO_API_KEY'
+};
+
+/**
+ * Environment variable the CLI reads extra HTTP headers from, as a JSON object
+ */
+const HEADERS_ENV_VAR = 'ZENCO_EXTRA_HEADERS';
+
+/**
+ * Endpoint used when `zenco.baseUrl` is not set
+ */
+const DEFAULT_BASE_URLS: Record<string, string> = {
+    ollama: 'http://localhost:11434/v1'
+};
+
+/**
+ * The settings of a run that become CLI flags
+ */
+export interface CliRunSettings {
+    provider: string;
+    model: string;
+    baseUrl: string;
+    /** Undefined when no style should be sent */
+    docstringStyle?: string;
+    strategy: string;
+    extraArgs: string[];
+}
+
+/**
+ * The endpoint a provider is used at. Only endpoint providers have one: hosted
+ * providers always go to their own API, so their API key can't be sent elsewhere.
+ */
+export function resolveBaseUrl(provider: string, configured: string): string {
+    if (!ENDPOINT_PROVIDERS.includes(provider)) {
+        return '';
+    }
+    return configured || DEFAULT_BASE_URLS[provider] || '';
+}
+
+/**
+ * The CLI flags for a run: the feature's own flags followed by those of the settings
+ */
+export function cliArgsFor(baseArgs: string[], settings: CliRunSettings): string[] {
+    const args = [...baseArgs];
+
+    // Add provider if set
+    if (settings.provider) {
+        args.push('--provider', settings.provider);
+    }
+
+    // Add model if set
+    if (settings.model) {
+        args.push('--model', settings.model);
+    }
+
+    // Add the endpoint of local / OpenAI-compatible providers
+    const baseUrl = resolveBaseUrl(settings.provider, settings.baseUrl);
+    if (baseUrl) {
+        args.push('--base-url', baseUrl);
+    }
+
+    // Add docstring style (resolved for the document's language)
+    if (settings.docstringStyle) {
+        args.push('--style', settings.docstringStyle);
+    }
+
+    // Add strategy
+    args.push('--strategy', settings.strategy);
+
+    // Add the profile's extra flags
+    args.push(...settings.extraArgs);
+
+    return args;
+}
+
+/**
+ * The environment variables for a provider: its API key, and for endpoint
+ * providers the custom headers
+ */
+export function providerEnvFor(
+    provider: string,
+    apiKey: string | undefined,
+    customHeaders: Record<string, string>
+): Record<string, string> {
+    const env: Record<string, string> = {};
+
+    const envVar = API_KEY_ENV_VARS[provider];
+    if (envVar && apiKey) {
+        env[envVar] = apiKey;
+    }
+
+    if (ENDPOINT_PROVIDERS.includes(provider) && Object.keys(customHeaders).length > 0) {
+        env[HEADERS_ENV_VAR] = JSON.stringify(customHeaders);
+    }
+
+    return env;
+}
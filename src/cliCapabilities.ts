@@ -0,0 +1,63 @@
+import { findJson } from './protocol';
+
+/**
+ * What an installed CLI can do
+ */
+export interface CliCapabilities {
+    version: string;
+    /** Version of the `--json` output format */
+    schemaVersion: number;
+    /** Options `zenco run` accepts, e.g. `--refactor-strict`; empty if unknown */
+    options: string[];
+    /** true if the CLI reported this itself, false if it was read from `--help` */
+    reported: boolean;
+}
+
+/**
+ * Read the output of `zenco capabilities --json`, e.g.
+ * `{ "version": "0.3.0", "schema_version": 1, "options": ["--refactor", ...] }`
+ *
+ * @returns undefined if the output is not such an object
+ */
+export function parseCapabilities(output: string): CliCapabilities | undefined {
+    const data = findJson(output);
+    if (typeof data !== 'object' || data === null) {
+        return undefined;
+    }
+
+    const raw = data as Record<string, unknown>;
+    const schemaVersion = raw.schema_version ?? raw.schemaVersion;
+    const options = raw.options ?? raw.flags;
+    if (typeof raw.version !== 'string' || typeof schemaVersion !== 'number' || !Array.isArray(options)) {
+        return undefined;
+    }
+
+    return {
+        version: raw.version,
+        schemaVersion,
+        options: options.filter((option): option is string => typeof option === 'string'),
+        reported: true
+    };
+}
+
+/**
+ * Capabilities of a CLI without a `capabilities` command, from the options
+ * listed in `zenco run --help`. Such CLIs predate output format versions.
+ */
+export function capabilitiesFromHelp(version: string, help: string): CliCapabilities {
+    const options = new Set<string>();
+    for (const match of help.matchAll(/(?:^|[\s,[(])(--[a-z][a-z0-9-]*)/gm)) {
+        options.add(match[1]);
+    }
+    return { version, schemaVersion: 1, options: [...options].sort(), reported: false };
+}
+
+/**
+ * The options of a run the CLI does not support (none if its options are unknown)
+ */
+export function missingOptions(capabilities: CliCapabilities, options: string[]): string[] {
+    if (capabilities.options.length === 0) {
+        return [];
+    }
+    return [...new Set(options.filter(option => option.startsWith('--') && !capabilities.options.includes(option)))];
+}
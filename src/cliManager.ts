@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -22,6 +22,48 @@ export interface CliCheckResult {
     resolvedPath?: string;
 }
 
+// Last check, reused so that runs don't probe the CLI every time
+let cachedInstallation: CliCheckResult | undefined;
+
+// Virtual environment the extension installs the CLI into (under globalStorageUri)
+let managedEnvironment: string | undefined;
+
+const installedEmitter = new vscode.EventEmitter<CliCheckResult>();
+
+/**
+ * Fires with the new installation after an install or upgrade was verified
+ */
+export const onDidInstallCli = installedEmitter.event;
+
+/**
+ * Remember where the extension-owned virtual environment lives. Call before
+ * the first check so an installed managed CLI is preferred.
+ */
+export function initializeCliManager(context: vscode.ExtensionContext): void {
+    managedEnvironment = path.join(context.globalStorageUri.fsPath, 'venv');
+}
+
+/**
+ * Path of an executable inside a virtual environment
+ */
+function environmentExecutable(environment: string, name: string): string {
+    return process.platform === 'win32'
+        ? path.join(environment, 'Scripts', `${name}.exe`)
+        : path.join(environment, 'bin', name);
+}
+
+/**
+ * Like checkCliInstallation, but reuses the result of the session until the CLI
+ * is installed. A missing CLI is looked for again unless `recheckMissing` is
+ * false, for callers like on-save runs that must not spawn processes every time.
+ */
+export async function getCliInstallation(recheckMissing: boolean = true): Promise<CliCheckResult> {
+    if (!cachedInstallation || (recheckMissing && !cachedInstallation.installed)) {
+        cachedInstallation = await checkCliInstallation();
+    }
+    return cachedInstallation;
+}
+
 /**
  * Check if zenco CLI is installed and get its version
  */
@@ -72,6 +114,14 @@ export async function checkCliInstallation(): Promise<CliCheckResult> {
  * Helper to resolve zenco executable path
  */
 async function resolveZencoPath(): Promise<string> {
+    // 0. The CLI installed by the extension, if any
+    if (managedEnvironment) {
+        const managedPath = environmentExecutable(managedEnvironment, 'zenco');
+        if (fs.existsSync(managedPath)) {
+            return managedPath;
+        }
+    }
+
     // 1. Try global PATH first (simplest)
     try {
         await execAsync('zenco --help');
@@ -157,209 +207,142 @@ export async function findPython(): Promise<string | null> {
 }
 
 /**
- * STEP 4a: Check if pipx is available
- * 
- * Why? pipx is the BEST way to install CLI tools on modern systems
- * It creates isolated environments automatically and handles PEP 668
- * 
- * How? Try to run `pipx --version`
- */
-/**
- * Check if pipx is available
- */
-async function checkPipxAvailable(): Promise<boolean> {
-    try {
-        await execAsync('pipx --version');
-        return true;
-    } catch {
-        return false;
-    }
-}
-
-/**
- * Check if Homebrew is available (macOS/Linux)
+ * Output channel showing the output of installations
  */
-async function checkBrewAvailable(): Promise<boolean> {
-    try {
-        await execAsync('brew --version');
-        return true;
-    } catch {
-        return false;
-    }
-}
+let installOutput: vscode.OutputChannel | undefined;
 
 /**
- * Install pipx using the best available method
+ * Run a command without a shell, streaming each line of its output to `onLine`
+ *
+ * @returns the exit code, or null if the process was killed
  */
-async function installPipx(pythonCmd: string): Promise<boolean> {
-    const hasBrew = await checkBrewAvailable();
-
-    return new Promise((resolve) => {
-        const terminal = vscode.window.createTerminal({ name: 'Install pipx' });
-        terminal.show();
-
-        if (hasBrew) {
-            vscode.window.showInformationMessage('Installing pipx via Homebrew...');
-            terminal.sendText('brew install pipx');
-        } else {
-            vscode.window.showInformationMessage('Installing pipx via pip...');
-            terminal.sendText(`${pythonCmd} -m pip install --user pipx`);
-            terminal.sendText(`${pythonCmd} -m pipx ensurepath`);
-        }
-
-        terminal.sendText('echo "PIPX_INSTALL_COMPLETE"');
-
-        // Wait for user to confirm
-        setTimeout(async () => {
-            const choice = await vscode.window.showInformationMessage(
-                'Is pipx installation complete?',
-                'Yes, Continue',
-                'No, Failed'
-            );
+function runStreamed(
+    command: string,
+    args: string[],
+    onLine: (line: string) => void,
+    token: vscode.CancellationToken
+): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { windowsHide: true, env: { ...process.env, PIP_DISABLE_PIP_VERSION_CHECK: '1' } });
+        const cancelListener = token.onCancellationRequested(() => child.kill());
+
+        let pending = '';
+        const onData = (chunk: Buffer) => {
+            const lines = (pending + chunk.toString('utf8')).split(/\r?\n/);
+            pending = lines.pop() ?? '';
+            lines.filter(line => line.trim()).forEach(onLine);
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
 
-            if (choice === 'Yes, Continue') {
-                resolve(await checkPipxAvailable());
-            } else {
-                resolve(false);
+        child.on('error', error => {
+            cancelListener.dispose();
+            reject(error);
+        });
+        child.on('close', exitCode => {
+            cancelListener.dispose();
+            if (pending.trim()) {
+                onLine(pending);
             }
-        }, 5000);
+            resolve(exitCode);
+        });
     });
 }
 
 /**
- * STEP 4b: Determine best installation method
- * 
- * Why? Modern macOS and Linux have PEP 668 protection (externally-managed-environment)
- * We need to use the right method based on what's available
- * 
- * Priority:
- * 1. pipx (best for CLI tools, handles isolation automatically)
- * 2. pip --user (safe, user-level install)
- * 3. Manual instructions (if all else fails)
- */
-/**
- * Determine best installation method
- */
-async function determineInstallMethod(): Promise<{
-    method: 'pipx' | 'pipx-missing' | 'pip-user' | 'manual';
-    command?: string;
-}> {
-    // Check if pipx is available
-    const hasPipx = await checkPipxAvailable();
-    if (hasPipx) {
-        return { method: 'pipx', command: 'pipx' };
-    }
-
-    // If pipx is missing, we should try to install it first
-    // This is the "Failsafe" approach
-    return { method: 'pipx-missing' };
-}
-
-/**
- * Install zenco CLI using the best available method
- * 
- * @param pythonCmd - The Python command to use (python3, python, etc.)
+ * Install or upgrade the zenco CLI in the extension's own virtual environment
+ * (so PEP 668 and PATH don't get in the way), showing progress and the
+ * output of pip, then check that the installed executable works
+ *
+ * @param pythonCmd - The Python command to create the environment with (python3, python, etc.)
  * @param upgrade - Whether to upgrade existing installation
  */
-/**
- * Validate that zenco is in the PATH
- */
-async function validatePath(): Promise<boolean> {
-    const result = await checkCliInstallation();
-    if (result.installed) {
-        return true;
-    }
+export async function installCli(pythonCmd: string, upgrade: boolean = false): Promise<boolean> {
+    // The executable (or its version) is about to change
+    cachedInstallation = undefined;
 
-    // Installation succeeded but command not found -> PATH issue
-    vscode.window.showInformationMessage(
-        'Zenco CLI installed! If you see errors, try restarting VS Code to refresh your PATH.',
-        'Show Help'
-    ).then(async selection => {
-        if (selection === 'Show Help') {
-            await showManualInstallInstructions(false);
-        }
-    });
+    if (!managedEnvironment) {
+        throw new Error('initializeCliManager must be called before installing the CLI');
+    }
+    const environment = managedEnvironment;
+    const zencoPath = environmentExecutable(environment, 'zenco');
+
+    installOutput ??= vscode.window.createOutputChannel('Zenco CLI Installation');
+    const output = installOutput;
+    output.appendLine(`--- ${upgrade ? 'Upgrading' : 'Installing'} Zenco CLI in ${environment} (${new Date().toLocaleString()})`);
+
+    const failure = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: upgrade ? 'Upgrading Zenco CLI' : 'Installing Zenco CLI',
+            cancellable: true
+        },
+        async (progress, token): Promise<string | undefined> => {
+            const step = async (message: string, command: string, args: string[]): Promise<string | undefined> => {
+                progress.report({ message });
+                output.appendLine(`> ${command} ${args.join(' ')}`);
+                try {
+                    const exitCode = await runStreamed(command, args, line => {
+                        output.appendLine(line);
+                        progress.report({ message: `${message} ${line.trim().slice(0, 80)}` });
+                    }, token);
+                    if (token.isCancellationRequested) {
+                        return 'Cancelled.';
+                    }
+                    return exitCode === 0 ? undefined : `${command} exited with code ${exitCode}.`;
+                } catch (error) {
+                    return `Could not run ${command}: ${error instanceof Error ? error.message : String(error)}`;
+                }
+            };
 
-    return false;
-}
+            const environmentPython = environmentExecutable(environment, 'python');
+            if (!fs.existsSync(environmentPython)) {
+                await fs.promises.mkdir(path.dirname(environment), { recursive: true });
+                const error = await step('Creating virtual environment...', pythonCmd, ['-m', 'venv', environment]);
+                if (error) {
+                    return `${error} Creating a virtual environment failed; on Debian and Ubuntu install the python3-venv package.`;
+                }
+            }
 
-export async function installCli(pythonCmd: string, upgrade: boolean = false): Promise<boolean> {
-    // Determine the best installation method
-    let installMethod = await determineInstallMethod();
-
-    // Handle pipx-missing case
-    if (installMethod.method === 'pipx-missing') {
-        const choice = await vscode.window.showInformationMessage(
-            'Zenco requires "pipx" for a safe installation. Install pipx now?',
-            'Install pipx',
-            'Try fallback (pip --user)'
-        );
+            const installArgs = ['-m', 'pip', 'install', ...(upgrade ? ['--upgrade'] : []), `zenco>=${MINIMUM_ZENCO_VERSION}`];
+            const error = await step('Installing zenco...', environmentPython, installArgs);
+            if (error) {
+                return error;
+            }
 
-        if (choice === 'Install pipx') {
-            const pipxInstalled = await installPipx(pythonCmd);
-            if (pipxInstalled) {
-                installMethod = { method: 'pipx', command: 'pipx' };
-            } else {
-                vscode.window.showErrorMessage('Failed to install pipx. Falling back to pip --user.');
-                installMethod = { method: 'pip-user' };
+            progress.report({ message: 'Verifying...' });
+            const result = await getCliInstallation();
+            if (!result.installed || result.resolvedPath !== zencoPath) {
+                return `${zencoPath} was not installed or does not run.`;
             }
-        } else {
-            installMethod = { method: 'pip-user' };
+            if (result.needsUpgrade) {
+                return `Installed Zenco CLI ${result.version} is older than the required ${MINIMUM_ZENCO_VERSION}.`;
+            }
+            output.appendLine(`Zenco CLI ${result.version} is ready at ${zencoPath}`);
+            return undefined;
         }
-    }
+    );
 
-    return new Promise(async (resolve) => {
-        let installCommand: string;
-        let terminalName: string;
-        let successMessage: string;
-
-        if (installMethod.method === 'pipx') {
-            const action = upgrade ? 'upgrade' : 'install';
-            installCommand = `pipx ${action} zenco`;
-            terminalName = 'Zenco CLI Installation (pipx)';
-            successMessage = upgrade
-                ? '⚡ Upgrading Zenco CLI with pipx...'
-                : '⚡ Installing Zenco CLI with pipx...';
-        } else {
-            const upgradeFlag = upgrade ? ' --upgrade' : '';
-            installCommand = `${pythonCmd} -m pip install --user zenco${upgradeFlag}`;
-            terminalName = 'Zenco CLI Installation (pip --user)';
-            successMessage = upgrade
-                ? '⚡ Upgrading Zenco CLI with pip --user...'
-                : '⚡ Installing Zenco CLI with pip --user...';
+    if (failure) {
+        cachedInstallation = undefined;
+        output.appendLine(failure);
+        const choice = await vscode.window.showErrorMessage(
+            `Zenco CLI installation failed: ${failure}`,
+            'Show Output',
+            'Manual Instructions'
+        );
+        if (choice === 'Show Output') {
+            output.show();
+        } else if (choice === 'Manual Instructions') {
+            await showManualInstallInstructions(upgrade);
         }
+        return false;
+    }
 
-        const terminal = vscode.window.createTerminal({ name: terminalName });
-        terminal.show();
-        vscode.window.showInformationMessage(successMessage);
-
-        terminal.sendText(installCommand);
-        terminal.sendText('echo "ZENCO_INSTALL_COMPLETE"');
-
-        setTimeout(async () => {
-            const choice = await vscode.window.showInformationMessage(
-                'Installation running. Click "Verify" when complete.',
-                'Verify Installation',
-                'Show Manual Instructions'
-            );
-
-            if (choice === 'Verify Installation') {
-                const isValid = await validatePath();
-                if (isValid) {
-                    const result = await checkCliInstallation();
-                    vscode.window.showInformationMessage(`✅ Zenco CLI ${result.version} installed!`);
-                    resolve(true);
-                } else {
-                    resolve(false);
-                }
-            } else if (choice === 'Show Manual Instructions') {
-                await showManualInstallInstructions(upgrade);
-                resolve(false);
-            } else {
-                resolve(false);
-            }
-        }, 3000);
-    });
+    const installed = await getCliInstallation();
+    installedEmitter.fire(installed);
+    vscode.window.showInformationMessage(`✅ Zenco CLI ${installed.version} installed!`);
+    return true;
 }
 
 /**
@@ -1,89 +1,257 @@
 import * as vscode from 'vscode';
+import { ProjectConfig } from './projectConfig';
+import { languageOfFile, resolveDocstringStyle } from './languages';
+import { ENDPOINT_PROVIDERS, cliArgsFor, providerEnvFor, resolveBaseUrl } from './cliArgs';
+
+export { ENDPOINT_PROVIDERS };
+
+/**
+ * Providers that take an API key, in the order they are offered to the user
+ */
+export const PROVIDERS = ['groq', 'openai', 'anthropic', 'gemini', 'custom'];
+
+/**
+ * A named bundle of settings from `zenco.profiles`, e.g. a cheap fast model
+ * for docstrings and a stronger one for refactors
+ */
+export interface ZencoProfile {
+    provider?: string;
+    model?: string;
+    baseUrl?: string;
+    docstringStyle?: string;
+    strategy?: string;
+    /** Extra CLI flags added to every run with the profile */
+    extraArgs?: string[];
+}
 
 export class ZencoConfig {
+    private static secrets: vscode.SecretStorage | undefined;
+
     /**
-     * Get the current Zenco configuration
+     * Connect the config to the extension's secret storage and move any
+     * API key still found in settings into it
      */
-    static getConfig() {
-        const config = vscode.workspace.getConfiguration('zenco');
+    static async initialize(context: vscode.ExtensionContext): Promise<void> {
+        this.secrets = context.secrets;
+
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('zenco.apiKey')) {
+                    this.migrateApiKeyFromSettings();
+                }
+            })
+        );
+
+        await this.migrateApiKeyFromSettings();
+    }
+
+    /**
+     * Get the current Zenco configuration. With a document or file, folder settings,
+     * language overrides (`"[python]"`) and the project configuration
+     * (`.zenco.json` / `pyproject.toml`) that apply to it are taken into account;
+     * The profile (`profileName`, else `zenco.activeProfile`) wins over the other
+     * VS Code settings, and the project configuration wins over both.
+     *
+     * `docstringStyle` is already resolved for the language, and is undefined
+     * when no style should be sent to the CLI.
+     */
+    static getConfig(scope?: vscode.Uri | vscode.TextDocument, profileName?: string) {
+        const resource = scope instanceof vscode.Uri ? scope : scope?.uri;
+        const languageId = scope instanceof vscode.Uri ? languageOfFile(scope) : scope?.languageId;
+        const config = vscode.workspace.getConfiguration('zenco', languageId ? { uri: resource, languageId } : resource);
+        const project = resource ? ProjectConfig.resolve(resource).settings : {};
+
+        const profiles = config.get<Record<string, ZencoProfile>>('profiles', {});
+        const profile = profileName || config.get<string>('activeProfile', '') || undefined;
+        const settings: ZencoProfile = (profile && profiles[profile]) || {};
+
+        const provider = project.provider ?? settings.provider ?? config.get<string>('provider', 'groq');
 
         return {
-            provider: config.get<string>('provider', 'groq'),
-            apiKey: config.get<string>('apiKey', ''),
-            model: config.get<string>('model', ''),
-            docstringStyle: config.get<string>('docstringStyle', 'google'),
-            strategy: config.get<string>('strategy', 'llm')
+            provider,
+            model: project.model ?? settings.model ?? config.get<string>('model', ''),
+            // Never from the project configuration, which could send the user's key and code elsewhere
+            baseUrl: resolveBaseUrl(provider, settings.baseUrl || config.get<string>('baseUrl', '')),
+            customHeaders: config.get<Record<string, string>>('customHeaders', {}),
+            docstringStyle: resolveDocstringStyle(
+                project.docstringStyle ?? settings.docstringStyle ?? config.get<string>('docstringStyle', 'auto'),
+                languageId
+            ),
+            strategy: project.strategy ?? settings.strategy ?? config.get<string>('strategy', 'llm'),
+            extraArgs: Array.isArray(settings.extraArgs) ? settings.extraArgs : [],
+            /** Name of the profile in use, undefined if none (or if it is not defined) */
+            profile: profile && profiles[profile] ? profile : undefined,
+            /** Name of the requested profile, even if it is not defined */
+            requestedProfile: profile,
+            timeoutSeconds: config.get<number>('timeoutSeconds', 120),
+            maxParallelRuns: config.get<number>('maxParallelRuns', 3),
+            recipes: config.get<Record<string, string[]>>('recipes', {})
         };
     }
 
     /**
-     * Build CLI arguments from configuration
+     * Names of the profiles defined in `zenco.profiles`
      */
-    static buildCliArgs(baseArgs: string[]): string[] {
-        const config = this.getConfig();
-        const args = [...baseArgs];
+    static getProfileNames(scope?: vscode.Uri | vscode.TextDocument): string[] {
+        const resource = scope instanceof vscode.Uri ? scope : scope?.uri;
+        return Object.keys(vscode.workspace.getConfiguration('zenco', resource).get<Record<string, ZencoProfile>>('profiles', {}));
+    }
 
-        // Add provider if set
-        if (config.provider) {
-            args.push('--provider', config.provider);
-        }
+    /**
+     * The profile `zenco.pinnedProfiles` pins to a feature (by id) or a recipe (by name),
+     * which it uses whatever profile is active
+     */
+    static getPinnedProfile(featureOrRecipe: string, scope?: vscode.Uri | vscode.TextDocument): string | undefined {
+        const resource = scope instanceof vscode.Uri ? scope : scope?.uri;
+        const pins = vscode.workspace.getConfiguration('zenco', resource).get<Record<string, string>>('pinnedProfiles', {});
+        return pins[featureOrRecipe] || undefined;
+    }
+
+    /**
+     * Get the on-save settings that apply to a document. These can be set per
+     * language, e.g. under `"[python]"`.
+     */
+    static getOnSaveConfig(document: vscode.TextDocument) {
+        const config = vscode.workspace.getConfiguration('zenco.onSave', document);
+
+        return {
+            enabled: config.get<boolean>('enabled', false),
+            features: config.get<string[]>('features', ['addDocstrings']),
+            timeoutMs: config.get<number>('timeoutMs', 1250)
+        };
+    }
 
-        // Add model if set
-        if (config.model) {
-            args.push('--model', config.model);
+    /**
+     * Get the stored API key for a provider
+     */
+    static async getApiKey(provider: string): Promise<string | undefined> {
+        const stored = await this.secrets?.get(secretKey(provider));
+        if (stored) {
+            return stored;
         }
 
-        // Add docstring style
-        args.push('--style', config.docstringStyle);
+        // Not migrated yet (e.g. secret storage unavailable) - fall back to the legacy setting
+        const legacy = vscode.workspace.getConfiguration('zenco').get<string>('apiKey', '');
+        return legacy && provider === this.getConfig().provider ? legacy : undefined;
+    }
 
-        // Add strategy
-        args.push('--strategy', config.strategy);
+    /**
+     * Store the API key for a provider in secret storage
+     */
+    static async setApiKey(provider: string, apiKey: string): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secret storage is not available yet.');
+        }
+        await this.secrets.store(secretKey(provider), apiKey);
+    }
 
-        return args;
+    /**
+     * Remove the stored API key for a provider
+     */
+    static async deleteApiKey(provider: string): Promise<void> {
+        await this.secrets?.delete(secretKey(provider));
+    }
+
+    /**
+     * Build CLI arguments from configuration
+     */
+    static buildCliArgs(baseArgs: string[], scope?: vscode.Uri | vscode.TextDocument, profile?: string): string[] {
+        return cliArgsFor(baseArgs, this.getConfig(scope, profile));
     }
 
     /**
      * Get environment variables for Zenco CLI
-     * This passes the API key securely via environment variable
+     * This passes the API key of the active provider (and custom headers) securely via environment variables
      */
-    static getEnvVars(): NodeJS.ProcessEnv {
-        const config = this.getConfig();
-        const env = { ...process.env };
-
-        // Set the appropriate API key environment variable based on provider
-        if (config.apiKey) {
-            switch (config.provider) {
-                case 'groq':
-                    env.GROQ_API_KEY = config.apiKey;
-                    break;
-                case 'openai':
-                    env.OPENAI_API_KEY = config.apiKey;
-                    break;
-                case 'anthropic':
-                    env.ANTHROPIC_API_KEY = config.apiKey;
-                    break;
-                case 'gemini':
-                    env.GEMINI_API_KEY = config.apiKey;
-                    break;
-            }
-        }
+    static async getEnvVars(scope?: vscode.Uri | vscode.TextDocument, profile?: string): Promise<NodeJS.ProcessEnv> {
+        return { ...process.env, ...(await this.getProviderEnv(scope, profile)) };
+    }
 
-        return env;
+    /**
+     * Just the variables for the active provider: its API key and (for endpoint providers) `zenco.customHeaders`.
+     * Requests to the server send only these, as it already has the rest of the environment.
+     */
+    static async getProviderEnv(scope?: vscode.Uri | vscode.TextDocument, profile?: string): Promise<Record<string, string>> {
+        const config = this.getConfig(scope, profile);
+        return providerEnvFor(config.provider, await this.getApiKey(config.provider), config.customHeaders);
     }
 
     /**
      * Check if configuration is valid (has API key if using LLM)
      */
-    static isConfigValid(): { valid: boolean; message?: string } {
-        const config = this.getConfig();
+    static async isConfigValid(scope?: vscode.Uri | vscode.TextDocument, profile?: string): Promise<{ valid: boolean; message?: string }> {
+        const config = this.getConfig(scope, profile);
+
+        if (config.requestedProfile && !config.profile) {
+            return { valid: false, message: `Zenco profile "${config.requestedProfile}" is not defined in zenco.profiles.` };
+        }
+
+        // Only LLM runs contact the provider; the mock strategy needs neither an endpoint nor a key
+        if (config.strategy !== 'llm') {
+            return { valid: true };
+        }
+
+        if (ENDPOINT_PROVIDERS.includes(config.provider)) {
+            // Local endpoints usually need no key, but they need an address
+            return config.baseUrl
+                ? { valid: true }
+                : { valid: false, message: `Set zenco.baseUrl to the endpoint of your ${config.provider} provider.` };
+        }
 
-        if (config.strategy === 'llm' && !config.apiKey) {
+        if (!(await this.getApiKey(config.provider))) {
             return {
                 valid: false,
-                message: `No API key configured for ${config.provider}. Please set it in VS Code settings (Zenco: API Key).`
+                message: `No API key configured for ${config.provider}. Run "Zenco: Set API Key" to add one.`
             };
         }
 
         return { valid: true };
     }
-}
\ No newline at end of file
+
+    /**
+     * Move a plain-text `zenco.apiKey` setting into secret storage (as the key of the
+     * provider that was active) and clear it from every settings scope
+     */
+    private static async migrateApiKeyFromSettings(): Promise<void> {
+        if (!this.secrets) {
+            return;
+        }
+
+        const scopes: { config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget; value?: string }[] = [];
+
+        const rootConfig = vscode.workspace.getConfiguration('zenco');
+        const rootInspect = rootConfig.inspect<string>('apiKey');
+        scopes.push({ config: rootConfig, target: vscode.ConfigurationTarget.Global, value: rootInspect?.globalValue });
+        scopes.push({ config: rootConfig, target: vscode.ConfigurationTarget.Workspace, value: rootInspect?.workspaceValue });
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const folderConfig = vscode.workspace.getConfiguration('zenco', folder.uri);
+            scopes.push({
+                config: folderConfig,
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+                value: folderConfig.inspect<string>('apiKey')?.workspaceFolderValue
+            });
+        }
+
+        const found = scopes.filter(scope => scope.value);
+        if (found.length === 0) {
+            return;
+        }
+
+        const provider = this.getConfig().provider;
+        // The most specific scope is the one that was actually in effect
+        await this.setApiKey(provider, found[found.length - 1].value!);
+
+        for (const scope of found) {
+            await scope.config.update('apiKey', undefined, scope.target);
+        }
+
+        vscode.window.showInformationMessage(
+            `Your ${provider} API key was moved from settings to secure storage and removed from settings.json.`
+        );
+    }
+}
+
+function secretKey(provider: string): string {
+    return `zenco.apiKey.${provider}`;
+}
@@ -0,0 +1,270 @@
+/**
+ * Parsing helpers for project configuration files. Kept free of the VS Code
+ * API so they can be tested on their own.
+ */
+
+import * as path from 'path';
+
+type TomlValue = string | number | boolean | TomlValue[];
+
+/**
+ * Settings a project can check in, in `.zenco.json` or under `[tool.zenco]` in `pyproject.toml`
+ */
+export interface ProjectSettings {
+    provider?: string;
+    model?: string;
+    docstringStyle?: string;
+    strategy?: string;
+    /** Ids of the features that may run (all of them if not set) */
+    features?: string[];
+    /** Globs, relative to the directory of the config file, of files Zenco must not touch */
+    exclude?: string[];
+}
+
+// Not the endpoint (`zenco.baseUrl`): it stays a VS Code setting, which an untrusted workspace can't set,
+// so a checked-in file can't send requests made with the user's API key somewhere else
+const STRING_KEYS = ['provider', 'model', 'docstringStyle', 'strategy'] as const;
+const LIST_KEYS = ['features', 'exclude'] as const;
+
+/**
+ * Read the keys of one table (e.g. `tool.zenco`) from a TOML document.
+ *
+ * Only what a tool section needs is supported: strings, numbers, booleans and
+ * (multi-line) arrays of those. Sub-tables and inline tables are ignored.
+ *
+ * @returns the keys of the table, or undefined if the document has no such table
+ */
+export function parseTomlTable(text: string, table: string): Record<string, TomlValue> | undefined {
+    const lines = text.split(/\r?\n/);
+    let result: Record<string, TomlValue> | undefined;
+    let inTable = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = stripComment(lines[i]).trim();
+        if (!line) {
+            continue;
+        }
+
+        const header = /^\[\s*([^\[\]]+?)\s*\]$/.exec(line);
+        if (header || line.startsWith('[[')) {
+            inTable = header !== null && header[1] === table;
+            if (inTable) {
+                result = result ?? {};
+            }
+            continue;
+        }
+
+        const assignment = /^([A-Za-z0-9_-]+|"[^"]*")\s*=\s*(.*)$/.exec(line);
+        if (!inTable || !assignment) {
+            continue;
+        }
+
+        // Arrays may span several lines
+        let value = assignment[2];
+        while (value.startsWith('[') && !isBalanced(value) && i + 1 < lines.length) {
+            value += ' ' + stripComment(lines[++i]).trim();
+        }
+
+        const parsed = parseTomlValue(value.trim());
+        if (parsed !== undefined) {
+            result![assignment[1].replace(/^"|"$/g, '')] = parsed;
+        }
+    }
+
+    return result;
+}
+
+function parseTomlValue(value: string): TomlValue | undefined {
+    if (value.startsWith('"')) {
+        return JSON.parse(value);
+    }
+    if (value.startsWith("'")) {
+        return value.slice(1, value.lastIndexOf("'"));
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (value.startsWith('[')) {
+        return splitArray(value.slice(1, value.lastIndexOf(']')))
+            .map(parseTomlValue)
+            .filter((item): item is TomlValue => item !== undefined);
+    }
+
+    const number = Number(value.replace(/_/g, ''));
+    return value && !isNaN(number) ? number : undefined;
+}
+
+/**
+ * Split the inside of an array on top-level commas
+ */
+function splitArray(inner: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let current = '';
+
+    for (let i = 0; i < inner.length; i++) {
+        const char = inner[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') {
+                current += char + inner[++i];
+                continue;
+            }
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '[') {
+            depth++;
+        } else if (char === ']') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            items.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    if (current.trim()) {
+        items.push(current.trim());
+    }
+    return items;
+}
+
+/**
+ * Remove a trailing `# comment`, leaving `#` inside strings alone
+ */
+function stripComment(line: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '#') {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}
+
+function isBalanced(value: string): boolean {
+    const code = stripStrings(value);
+    return count(code, '[') === count(code, ']');
+}
+
+function stripStrings(value: string): string {
+    return value.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '');
+}
+
+function count(value: string, char: string): number {
+    return value.split(char).length - 1;
+}
+
+/**
+ * Turn `snake_case` and `kebab-case` keys into `camelCase`, so
+ * `docstring_style` (pyproject.toml) and `docstringStyle` (.zenco.json) mean the same
+ */
+export function toCamelCase(key: string): string {
+    return key.replace(/[-_]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`, `{a,b}`) matched against `/`-separated
+ * relative paths into a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` matches any number of folders (including none), a trailing `**` matches everything
+            if (glob[i + 2] === '/') {
+                pattern += '(?:.*/)?';
+                i += 2;
+            } else {
+                pattern += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            pattern += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            pattern += ')';
+        } else if (char === ',' && inGroup) {
+            pattern += '|';
+        } else {
+            pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    // A pattern without a slash matches at any depth, like .gitignore; a folder also matches its contents
+    const anchored = glob.includes('/') ? pattern.replace(/^\//, '') : '(?:.*/)?' + pattern;
+    return new RegExp(`^${anchored}(?:/.*)?$`);
+}
+
+/**
+ * Keep the known keys of a config file with the right types, reporting everything else
+ */
+export function readProjectSettings(file: string, raw: unknown): { settings: ProjectSettings; errors: string[] } {
+    const result: { settings: ProjectSettings; errors: string[] } = { settings: {}, errors: [] };
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        result.errors.push(`${file}: expected an object of Zenco settings.`);
+        return result;
+    }
+
+    for (const [rawKey, value] of Object.entries(raw)) {
+        const key = toCamelCase(rawKey);
+
+        if ((STRING_KEYS as readonly string[]).includes(key) && typeof value === 'string') {
+            result.settings[key as typeof STRING_KEYS[number]] = value;
+        } else if ((LIST_KEYS as readonly string[]).includes(key) && Array.isArray(value) && value.every(item => typeof item === 'string')) {
+            result.settings[key as typeof LIST_KEYS[number]] = value;
+        } else {
+            result.errors.push(`${file}: ignoring "${rawKey}" (unknown setting or wrong type).`);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Merge the config files from the workspace folder root down to a file's
+ * directory (outermost first): deeper files win, except that excludes add up.
+ * Each exclude is made relative to the workspace folder.
+ *
+ * @param layers - Settings per directory, given relative to the workspace folder with `/` separators
+ */
+export function mergeProjectSettings(layers: { directory: string; settings: ProjectSettings }[]): ProjectSettings {
+    const merged: ProjectSettings = {};
+    const excludes: string[] = [];
+
+    for (const { directory, settings } of layers) {
+        const { exclude, ...rest } = settings;
+        Object.assign(merged, rest);
+        for (const glob of exclude ?? []) {
+            const scoped = glob.includes('/') ? glob : '**/' + glob;
+            excludes.push(path.posix.join(directory, scoped));
+        }
+    }
+
+    if (excludes.length > 0) {
+        merged.exclude = excludes;
+    }
+    return merged;
+}
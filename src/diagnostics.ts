@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import { ZencoResult } from './zencoRunner';
+import { ReviewableHunk, buildReviewableHunks, describeHunk } from './changeReview';
+import { Hunk } from './changeHunks';
+
+/**
+ * Findings of one analysis run for a document
+ */
+interface DocumentAnalysis {
+    /** Document version the hunks were computed against */
+    version: number;
+    entries: { entry: ReviewableHunk; diagnostic: vscode.Diagnostic }[];
+}
+
+export const APPLY_FIX_COMMAND = 'zenco-vscode.applyDiagnosticFix';
+
+/**
+ * Publishes Zenco findings as diagnostics and offers a Quick Fix for each one
+ */
+export class ZencoDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private collection = vscode.languages.createDiagnosticCollection('zenco');
+    private analyses = new Map<string, DocumentAnalysis>();
+    private disposables: vscode.Disposable[] = [];
+
+    // Set while one of our own fixes is being applied, so the edit doesn't clear the findings
+    private applyingFixTo: string | undefined;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                const key = event.document.uri.toString();
+                if (event.contentChanges.length > 0 && key !== this.applyingFixTo && this.analyses.has(key)) {
+                    // Line numbers no longer match the document, so the findings are stale
+                    this.clear(event.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri))
+        );
+    }
+
+    /**
+     * Replace the diagnostics of a document with the changes from a Zenco result
+     *
+     * @returns Number of findings published
+     */
+    publish(document: vscode.TextDocument, result: ZencoResult): number {
+        if (result.originalContent === undefined || result.modifiedContent === undefined) {
+            this.clear(document.uri);
+            return 0;
+        }
+
+        const entries = buildReviewableHunks(result.originalContent, result.modifiedContent, result.changes)
+            .map(entry => ({ entry, diagnostic: this.createDiagnostic(document, entry) }));
+
+        this.analyses.set(document.uri.toString(), { version: document.version, entries });
+        this.collection.set(document.uri, entries.map(e => e.diagnostic));
+
+        return entries.length;
+    }
+
+    clear(uri?: vscode.Uri) {
+        if (uri) {
+            this.analyses.delete(uri.toString());
+            this.collection.delete(uri);
+        } else {
+            this.analyses.clear();
+            this.collection.clear();
+        }
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const analysis = this.analyses.get(document.uri.toString());
+        if (!analysis || analysis.version !== document.version) {
+            return [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'Zenco') {
+                continue;
+            }
+
+            // Diagnostics are copied when passed back to us, so match them by position and message
+            const index = analysis.entries.findIndex(e =>
+                e.diagnostic.range.isEqual(diagnostic.range) && e.diagnostic.message === diagnostic.message
+            );
+            if (index === -1) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(`Zenco: ${diagnostic.message}`, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            action.command = {
+                command: APPLY_FIX_COMMAND,
+                title: 'Apply Zenco change',
+                arguments: [document.uri, index]
+            };
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Apply a single finding and shift the remaining ones to match the edited document
+     */
+    async applyFix(uri: vscode.Uri, index: number): Promise<boolean> {
+        const key = uri.toString();
+        const analysis = this.analyses.get(key);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+
+        if (!analysis || !document || analysis.version !== document.version || !analysis.entries[index]) {
+            vscode.window.showWarningMessage('This Zenco finding is out of date. Run the analysis again.');
+            return false;
+        }
+
+        const { hunk } = analysis.entries[index].entry;
+        const { range, text } = hunkEdit(document, hunk);
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, range, text);
+
+        this.applyingFixTo = key;
+        let applied: boolean;
+        try {
+            applied = await vscode.workspace.applyEdit(edit);
+        } finally {
+            this.applyingFixTo = undefined;
+        }
+
+        if (!applied) {
+            return false;
+        }
+
+        // Remaining hunks below the edit move by the number of lines added or removed
+        const delta = hunk.modifiedLines.length - hunk.originalLines.length;
+        const remaining = analysis.entries
+            .filter((_, i) => i !== index)
+            .map(({ entry }) => {
+                if (entry.hunk.originalStart > hunk.originalStart) {
+                    entry.hunk.originalStart += delta;
+                }
+                return { entry, diagnostic: this.createDiagnostic(document, entry) };
+            });
+
+        this.analyses.set(key, { version: document.version, entries: remaining });
+        this.collection.set(uri, remaining.map(e => e.diagnostic));
+        return true;
+    }
+
+    dispose() {
+        this.collection.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private createDiagnostic(document: vscode.TextDocument, entry: ReviewableHunk): vscode.Diagnostic {
+        const { hunk } = entry;
+
+        // Pure insertions (e.g. a new docstring) are reported on the line above them
+        const range = hunk.originalLines.length > 0
+            ? hunkRange(document, hunk.originalStart, hunk.originalLines.length)
+            : document.lineAt(Math.min(Math.max(hunk.originalStart - 1, 0), document.lineCount - 1)).range;
+
+        const type = entry.changes[0]?.type ?? 'refactor';
+        const diagnostic = new vscode.Diagnostic(range, describeHunk(entry), severityFor(type));
+        diagnostic.source = 'Zenco';
+        diagnostic.code = type;
+
+        if (isDeadCode(type)) {
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+
+        return diagnostic;
+    }
+}
+
+/**
+ * Range covering whole lines `start` .. `start + count - 1` (an empty range at `start` if count is 0)
+ */
+function hunkRange(document: vscode.TextDocument, start: number, count: number): vscode.Range {
+    if (count === 0) {
+        return new vscode.Range(start, 0, start, 0);
+    }
+    const endLine = start + count - 1;
+    return new vscode.Range(start, 0, endLine, document.lineAt(endLine).text.length);
+}
+
+/**
+ * The text edit that replaces a hunk's original lines with its modified lines
+ */
+export function hunkEdit(document: vscode.TextDocument, hunk: Hunk): { range: vscode.Range; text: string } {
+    const end = hunk.originalStart + hunk.originalLines.length;
+
+    if (end < document.lineCount) {
+        // Replace whole lines including their line breaks
+        return {
+            range: new vscode.Range(hunk.originalStart, 0, end, 0),
+            text: hunk.modifiedLines.map(line => line + '\n').join('')
+        };
+    }
+
+    // The hunk reaches the end of the document, so there is no line break after it
+    const documentEnd = document.lineAt(document.lineCount - 1).range.end;
+    if (hunk.originalStart === 0) {
+        return { range: new vscode.Range(0, 0, documentEnd.line, documentEnd.character), text: hunk.modifiedLines.join('\n') };
+    }
+
+    const previousLineEnd = document.lineAt(hunk.originalStart - 1).range.end;
+    return {
+        range: new vscode.Range(previousLineEnd, documentEnd),
+        text: hunk.modifiedLines.map(line => '\n' + line).join('')
+    };
+}
+
+function isDeadCode(type: string): boolean {
+    return /dead|unused/i.test(type);
+}
+
+/**
+ * Magic numbers and dead code are real problems; missing docs and hints are informational
+ */
+function severityFor(type: string): vscode.DiagnosticSeverity {
+    if (isDeadCode(type) || /magic/i.test(type)) {
+        return vscode.DiagnosticSeverity.Warning;
+    }
+    return vscode.DiagnosticSeverity.Information;
+}
@@ -22,16 +22,18 @@ export class DiffViewer implements vscode.TextDocumentContentProvider {
 
     /**
      * Show a diff between original and modified content
+     *
+     * @param key - Distinguishes previews of files with the same name
      */
     async showDiff(
         originalContent: string,
         modifiedContent: string,
-        fileName: string
+        fileName: string,
+        key: string = ''
     ): Promise<void> {
         // Create unique URIs for the original and modified content
         // We use a custom scheme 'zenco-diff'
-        const originalUri = vscode.Uri.parse(`zenco-diff:original/${fileName}`);
-        const modifiedUri = vscode.Uri.parse(`zenco-diff:modified/${fileName}`);
+        const { originalUri, modifiedUri } = this.getUris(fileName, key);
 
         // Store the content
         this.contentMap.set(originalUri.toString(), originalContent);
@@ -49,4 +51,33 @@ export class DiffViewer implements vscode.TextDocumentContentProvider {
             `Zenco Preview: ${fileName} (Original ↔ Modified)`
         );
     }
-}
\ No newline at end of file
+
+    /**
+     * Close the diff editor of a preview (if open) and forget its content
+     */
+    async closeDiff(fileName: string, key: string = ''): Promise<void> {
+        const { originalUri, modifiedUri } = this.getUris(fileName, key);
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab =>
+                tab.input instanceof vscode.TabInputTextDiff &&
+                tab.input.modified.toString() === modifiedUri.toString()
+            );
+
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+
+        this.contentMap.delete(originalUri.toString());
+        this.contentMap.delete(modifiedUri.toString());
+    }
+
+    private getUris(fileName: string, key: string) {
+        const prefix = key ? `${key}/` : '';
+        return {
+            originalUri: vscode.Uri.from({ scheme: 'zenco-diff', path: `original/${prefix}${fileName}` }),
+            modifiedUri: vscode.Uri.from({ scheme: 'zenco-diff', path: `modified/${prefix}${fileName}` })
+        };
+    }
+}
@@ -1,23 +1,59 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import {
-    refactorFile,
-    refactorFileStrict,
-    addDocstrings,
-    improveDocstrings,
-    addTypeHints,
-    fixMagicNumbers,
-    removeDeadCode,
-    removeDeadCodeStrict,
-    runZencoCommand
-} from './zencoRunner';
+import { ZencoResult } from './zencoRunner';
+import { FEATURES, featuresFor, pickFeature, getFeature } from './features';
+import { getLanguageSupport, isFeatureSupported, languageOfFile } from './languages';
+import { getSelectionScope, getSymbolScope } from './scope';
 import { DiffViewer } from './diffViewer';
+import { reviewChanges } from './changeReview';
+import { ZencoDiagnostics, APPLY_FIX_COMMAND } from './diagnostics';
+import { applyToDocument, createSnapshot } from './applyChanges';
+import { PendingChangesProvider, PendingPreview, fileNameOf } from './pendingChanges';
+import { findFilesToProcess, runFeatureOnFiles } from './bulkRun';
+import { ZencoHistory, HistoryEntry, formatHistoryEntry } from './history';
+import { getRecipes, describeRecipe, runRecipe, recipeStepsFor } from './recipes';
+import { ZencoOnSave } from './onSave';
+import { ZencoResultsPanel } from './resultsPanel';
+import { pickGitScope, findChangedFiles, limitToChangedLines } from './git';
 import { Logger } from './logger';
-import { ensureCliInstalled, checkCliInstallation } from './cliManager';
+import { ensureCliInstalled, checkCliInstallation, getCliInstallation, initializeCliManager, onDidInstallCli } from './cliManager';
+import { ZencoCapabilities } from './capabilities';
+import { missingOptions } from './cliCapabilities';
+import { ZencoServer } from './zencoServer';
+import { ZencoResultCache } from './resultCache';
+import { selectModel, selectProfile, testConnection } from './providers';
+import { ZencoUsage } from './usage';
+import { ZencoConfig, PROVIDERS } from './config';
+import { ProjectConfig } from './projectConfig';
+
+/**
+ * What to do with the result of a feature run
+ */
+type RunMode = 'Preview Changes (Diff)' | 'Apply Changes' | 'Show as Problems (Quick Fixes)';
 
 export function activate(context: vscode.ExtensionContext) {
     Logger.getInstance().info('Congratulations, your extension "zenco" is now active!');
 
+    // The CLI is installed into a virtual environment under globalStorageUri, preferred over others once there
+    initializeCliManager(context);
+
+    // What the installed CLI supports; features it lacks are hidden via zenco.cliLacks.<feature> context keys
+    const capabilities = ZencoCapabilities.initialize(context);
+    context.subscriptions.push(
+        capabilities.onDidChange(current => {
+            for (const feature of FEATURES) {
+                const lacks = current ? missingOptions(current, feature.options).length > 0 : false;
+                vscode.commands.executeCommand('setContext', `zenco.cliLacks.${feature.id}`, lacks);
+            }
+        })
+    );
+
+    async function refreshCapabilities() {
+        const cli = await getCliInstallation();
+        if (cli.installed) {
+            await capabilities.get(cli.resolvedPath || 'zenco', cli.version);
+        }
+    }
+
     /**
      * STEP 8: Check CLI installation on activation
      * 
@@ -32,14 +68,36 @@ export function activate(context: vscode.ExtensionContext) {
     ensureCliInstalled(context, false).then(isInstalled => {
         if (isInstalled) {
             console.log('Zenco CLI is ready!');
+            refreshCapabilities();
         } else {
             console.log('Zenco CLI not available - user will be prompted when needed');
         }
     });
 
-    // State for pending changes
-    let pendingResult: any = null;
-    let pendingEditor: vscode.TextEditor | null = null;
+    // Move any plain-text API key from settings into secret storage
+    ZencoConfig.initialize(context).catch(error => {
+        Logger.getInstance().error('API key migration failed: ' + String(error));
+    });
+
+    // Pick up edits to .zenco.json and pyproject.toml files
+    ProjectConfig.initialize(context);
+
+    // Keep one `zenco serve` process for runs (started on first use, one-shot runs otherwise)
+    const server = ZencoServer.initialize();
+    context.subscriptions.push(
+        server,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('zenco.serverMode')) {
+                server.restart();
+            }
+        }),
+        // However it was installed, the new CLI may support server mode and options where the old one didn't
+        onDidInstallCli(cli => {
+            server.restart();
+            capabilities.invalidate();
+            capabilities.get(cli.resolvedPath || 'zenco', cli.version);
+        })
+    );
 
     // 1. Initialize Output Channel
     const outputChannel = vscode.window.createOutputChannel('Zenco');
@@ -50,38 +108,130 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.workspace.registerTextDocumentContentProvider('zenco-diff', diffViewer)
     );
 
-    // 3. Create Status Bar Item
+    // 3. Initialize the Results panel (every run of the session, opened on demand)
+    context.subscriptions.push(ZencoResultsPanel.initialize(diffViewer));
+
+    // 4. Initialize Diagnostics (findings in the Problems panel with Quick Fixes)
+    const diagnostics = new ZencoDiagnostics();
+    context.subscriptions.push(
+        diagnostics,
+        vscode.languages.registerCodeActionsProvider(
+            [{ scheme: 'file' }, { scheme: 'untitled' }],
+            diagnostics,
+            { providedCodeActionKinds: ZencoDiagnostics.providedCodeActionKinds }
+        ),
+        vscode.commands.registerCommand(APPLY_FIX_COMMAND, (uri: vscode.Uri, index: number) => diagnostics.applyFix(uri, index))
+    );
+
+    // 5. Initialize Pending Changes view (one entry per previewed run)
+    const pendingChanges = new PendingChangesProvider();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('zencoPendingChanges', pendingChanges),
+        pendingChanges.onDidChangeTreeData(() => updateStatusBar())
+    );
+
+    // 6. Initialize History view (journal of applied runs, kept across restarts)
+    ZencoHistory.initialize(context).then(history => {
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('zencoHistory', history));
+    });
+
+    // Results of earlier runs, reused for unchanged content (kept across restarts)
+    ZencoResultCache.initialize(context);
+
+    // Token usage and estimated cost per provider and model (kept across restarts)
+    const usage = ZencoUsage.initialize(context);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('zencoUsage', usage));
+
+    // 7. Run the configured features when documents are saved (zenco.onSave.*)
+    context.subscriptions.push(new ZencoOnSave());
+
+    // 8. Create Status Bar Items (the Zenco menu, and the provider/model switcher next to it)
     const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
     statusBarItem.show();
     context.subscriptions.push(statusBarItem);
 
-    // Helper to reset status bar
-    function resetStatusBar() {
-        statusBarItem.text = "$(zap) Zenco";
-        statusBarItem.tooltip = "Click to refactor current file with Zenco";
-        statusBarItem.backgroundColor = undefined;
-        statusBarItem.command = 'zenco-vscode.showMenu';
+    const modelStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    modelStatusItem.command = 'zenco-vscode.selectModel';
+    modelStatusItem.show();
+    context.subscriptions.push(
+        modelStatusItem,
+        vscode.window.onDidChangeActiveTextEditor(() => updateModelStatus()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('zenco')) {
+                updateModelStatus();
+            }
+        })
+    );
+
+    // Profile, provider and model in effect for the active file (they can differ per language and project)
+    function updateModelStatus() {
+        const config = ZencoConfig.getConfig(vscode.window.activeTextEditor?.document);
+        modelStatusItem.text = `$(hubot) ${config.profile ? `${config.profile}: ` : ''}${config.provider}${config.model ? ` · ${config.model}` : ''}`;
+        modelStatusItem.tooltip = `Zenco uses ${config.provider}` +
+            `${config.model ? ` with ${config.model}` : ' with its default model'}` +
+            `${config.baseUrl ? ` at ${config.baseUrl}` : ''}` +
+            `${config.profile ? ` (profile "${config.profile}")` : ''}. Click to change.`;
     }
 
-    // Helper to show apply button
-    function showApplyStatusBar() {
-        statusBarItem.text = "$(check) Apply! or $(x) Discard!";
+    updateModelStatus();
+
+    // Helper to show the menu, or the number of outstanding previews
+    function updateStatusBar() {
+        const count = pendingChanges.count;
+
+        if (count === 0) {
+            statusBarItem.text = "$(zap) Zenco";
+            statusBarItem.tooltip = "Click to refactor current file with Zenco";
+            statusBarItem.backgroundColor = undefined;
+            statusBarItem.command = 'zenco-vscode.showMenu';
+            return;
+        }
+
+        statusBarItem.text = `$(diff) ${count} Zenco preview${count === 1 ? '' : 's'}`;
         statusBarItem.tooltip = "Choose to apply or discard the changes you are previewing";
         statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         statusBarItem.command = 'zenco-vscode.applyPending';
     }
 
     // Initialize status bar
-    resetStatusBar();
+    updateStatusBar();
+
+    /**
+     * Check that the features may run on a document: they apply to its language
+     * and the project configuration allows them. Warns and returns false otherwise.
+     */
+    function mayRun(document: vscode.TextDocument, featureIds: string[]): boolean {
+        const unsupported = FEATURES.filter(feature =>
+            featureIds.includes(feature.id) && !isFeatureSupported(feature.id, document.languageId)
+        );
+        if (unsupported.length > 0) {
+            const language = getLanguageSupport(document.languageId)?.name ?? document.languageId;
+            vscode.window.showWarningMessage(`${unsupported.map(feature => feature.name).join(', ')} is not available for ${language} files.`);
+            return false;
+        }
+
+        const notAllowed = ProjectConfig.checkAllowed(document.uri, featureIds);
+        if (notAllowed) {
+            vscode.window.showWarningMessage(notAllowed);
+            return false;
+        }
+
+        return true;
+    }
 
     /**
      * Helper function to run a Zenco feature with consistent UX
+     *
+     * @param pinnedTo - Feature id or recipe name whose pinned profile (`zenco.pinnedProfiles`) the run uses
+     * @param mode - What to do with the result, instead of asking
      */
     async function runZencoFeature(
         featureName: string,
-        featureFunction: (doc: vscode.TextDocument) => Promise<any>,
-        outputChannel: vscode.OutputChannel,
-        diffViewer: DiffViewer
+        featureFunction: (doc: vscode.TextDocument, token: vscode.CancellationToken) => Promise<ZencoResult>,
+        diffViewer: DiffViewer,
+        featureIds: string[] = [],
+        pinnedTo?: string,
+        mode?: RunMode
     ) {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
@@ -89,16 +239,13 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        // Reset any previous pending state
-        if (pendingResult) {
-            pendingResult = null;
-            pendingEditor = null;
-            resetStatusBar();
+        if (!mayRun(editor.document, featureIds)) {
+            return;
         }
 
         // Ask user: Preview or Apply?
-        const choice = await vscode.window.showQuickPick(
-            ['Preview Changes (Diff)', 'Apply Changes'],
+        const choice = mode ?? await vscode.window.showQuickPick(
+            ['Preview Changes (Diff)', 'Apply Changes', 'Show as Problems (Quick Fixes)'],
             {
                 placeHolder: `${featureName}: Preview or Apply?`
             }
@@ -108,77 +255,156 @@ export function activate(context: vscode.ExtensionContext) {
             return; // User cancelled
         }
 
+        // Every feature (or recipe step) is a request of its own
+        if (!(await usage.confirmBudget(Math.max(featureIds.length, 1)))) {
+            return;
+        }
+
         const applyChanges = choice === 'Apply Changes';
+        const showAsProblems = choice === 'Show as Problems (Quick Fixes)';
 
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: `Zenco: ${featureName}...`,
-            cancellable: false
-        }, async (progress) => {
-            const result = await featureFunction(editor.document);
+            cancellable: true
+        }, async (progress, token) => {
+            // Remember what the run was computed against, to detect edits made before applying
+            const profile = pinnedTo ? ZencoConfig.getPinnedProfile(pinnedTo, editor.document) : undefined;
+            const snapshot = createSnapshot(editor.document, featureName, profile);
+            const result = await featureFunction(editor.document, token);
+
+            if (result.status !== 'cancelled') {
+                // Keep every run of the session in the results panel
+                ZencoResultsPanel.getInstance()?.add(featureName, editor.document.uri, result, result.success);
+            }
 
             if (result.success) {
-                // Show output in panel
-                if (result.output) {
-                    outputChannel.clear();
-                    outputChannel.appendLine(`=== Zenco: ${featureName} Results ===`);
-                    outputChannel.appendLine(result.output);
-                }
-
-                if (applyChanges) {
+                if (showAsProblems) {
+                    publishFindings(editor.document, result);
+                } else if (applyChanges) {
                     if (result.modifiedContent) {
-                        const edit = new vscode.WorkspaceEdit();
-                        const fullRange = new vscode.Range(
-                            editor.document.positionAt(0),
-                            editor.document.positionAt(editor.document.getText().length)
-                        );
-
-                        edit.replace(editor.document.uri, fullRange, result.modifiedContent);
-                        await vscode.workspace.applyEdit(edit);
-
-                        vscode.window.showInformationMessage(
-                            `✅ ${featureName} applied successfully!`
-                        );
+                        if (await applyToDocument(snapshot, result.modifiedContent)) {
+                            vscode.window.showInformationMessage(
+                                `✅ ${featureName} applied successfully!`
+                            );
+                        }
                     } else {
                         vscode.window.showWarningMessage('No changes returned from Zenco.');
                     }
                 } else {
                     // Preview Mode with Diff View
                     if (result.originalContent && result.modifiedContent) {
-                        const fileName = path.basename(editor.document.fileName);
+                        // ✨ Keep the preview alongside any others that are still pending
+                        const preview = pendingChanges.add(featureName, result, snapshot);
+                        const fileName = fileNameOf(preview);
 
                         await diffViewer.showDiff(
                             result.originalContent,
                             result.modifiedContent,
-                            fileName
+                            fileName,
+                            preview.id
                         );
 
-                        // ✨ Store state and update status bar
-                        pendingResult = result;
-                        pendingEditor = editor;
-                        showApplyStatusBar();
-
                         vscode.window.showInformationMessage(
-                            `👀 Previewing ${fileName}. Click "Apply or Discard" in the status bar to finish.`
+                            `👀 Previewing ${fileName}. Apply or discard it from the status bar or the Zenco Pending Changes view.`
                         );
                     } else {
                         vscode.window.showWarningMessage('Could not show diff: missing content.');
                     }
                 }
+            } else if (result.status === 'cancelled') {
+                vscode.window.showInformationMessage(`Zenco ${featureName} was cancelled.`);
+            } else if (result.status === 'timedOut') {
+                vscode.window.showErrorMessage(`Zenco ${featureName} timed out: ${result.error}`);
             } else {
                 vscode.window.showErrorMessage(`Zenco ${featureName} failed: ${result.error}`);
             }
         });
     }
 
-    // 4. Register Commands
+    /**
+     * Publish a result as diagnostics for the document it was computed from
+     */
+    function publishFindings(document: vscode.TextDocument, result: ZencoResult) {
+        if (result.originalContent !== document.getText()) {
+            vscode.window.showWarningMessage('The file changed while Zenco was running. Run the analysis again.');
+            return;
+        }
+
+        const count = diagnostics.publish(document, result);
+        if (count > 0) {
+            vscode.window.showInformationMessage(
+                `Zenco found ${count} issue(s). See the Problems panel and use Quick Fix to apply them one by one.`
+            );
+        } else {
+            vscode.window.showInformationMessage('Zenco found no issues in this file.');
+        }
+    }
+
+    // 9. Register Commands
+
+    /**
+     * Apply a pending preview (optionally only the changes the user accepts) and remove it
+     */
+    async function applyPreview(preview: PendingPreview, review: boolean) {
+        const { result, snapshot } = preview;
+        if (result.modifiedContent === undefined) {
+            return;
+        }
+
+        let contentToApply = result.modifiedContent;
+
+        if (review) {
+            const reviewed = await reviewChanges(result);
+            if (reviewed === undefined) {
+                return; // Keep the preview pending so the user can decide again
+            }
+            contentToApply = reviewed;
+        }
+
+        // Apply logic (merges onto edits made since the preview, or refuses on conflicts)
+        if (!(await applyToDocument(snapshot, contentToApply))) {
+            return; // Keep the preview pending
+        }
+
+        vscode.window.showInformationMessage(
+            review ? '✅ Selected changes applied successfully!' : '✅ Changes applied successfully!'
+        );
+
+        await diffViewer.closeDiff(fileNameOf(preview), preview.id);
+        pendingChanges.remove(preview);
+    }
+
+    async function discardPreview(preview: PendingPreview) {
+        await diffViewer.closeDiff(fileNameOf(preview), preview.id);
+        pendingChanges.remove(preview);
+        vscode.window.showInformationMessage('Changes discarded.');
+    }
 
     // ✨ NEW: Apply Pending Command
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.applyPending', async () => {
-            if (!pendingResult || !pendingEditor) {
-                vscode.window.showErrorMessage('No pending changes to apply.');
-                resetStatusBar();
+        vscode.commands.registerCommand('zenco-vscode.applyPending', async (target?: PendingPreview) => {
+            let preview = target;
+
+            if (!preview) {
+                const previews = pendingChanges.getAll();
+                if (previews.length === 0) {
+                    vscode.window.showErrorMessage('No pending changes to apply.');
+                    return;
+                }
+
+                if (previews.length === 1) {
+                    preview = previews[0];
+                } else {
+                    const selection = await vscode.window.showQuickPick(
+                        previews.map(p => ({ label: fileNameOf(p), description: p.featureName, preview: p })),
+                        { placeHolder: 'Select the preview to apply or discard' }
+                    );
+                    preview = selection?.preview;
+                }
+            }
+
+            if (!preview) {
                 return;
             }
 
@@ -186,9 +412,10 @@ export function activate(context: vscode.ExtensionContext) {
             const choice = await vscode.window.showQuickPick(
                 [
                     { label: '$(check) Apply Changes', description: 'Apply the previewed changes to the file', value: 'apply' },
+                    { label: '$(checklist) Review Changes Individually', description: 'Accept or reject each change on its own', value: 'review' },
                     { label: '$(x) Discard Changes', description: 'Cancel and discard these changes', value: 'discard' }
                 ],
-                { placeHolder: 'Apply or Discard pending changes?' }
+                { placeHolder: `Apply or Discard pending changes to ${fileNameOf(preview)}?` }
             );
 
             if (!choice) {
@@ -196,93 +423,285 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             if (choice.value === 'discard') {
-                // Discard logic
-                pendingResult = null;
-                pendingEditor = null;
-                resetStatusBar();
+                await discardPreview(preview);
+            } else {
+                await applyPreview(preview, choice.value === 'review');
+            }
+        })
+    );
 
-                // Close diff editor
-                await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    // Pending Changes view actions
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.openPendingDiff', async (preview: PendingPreview) => {
+            const { originalContent, modifiedContent } = preview.result;
+            if (originalContent !== undefined && modifiedContent !== undefined) {
+                await diffViewer.showDiff(originalContent, modifiedContent, fileNameOf(preview), preview.id);
+            }
+        }),
+        vscode.commands.registerCommand('zenco-vscode.applyPendingPreview', (preview: PendingPreview) => applyPreview(preview, false)),
+        vscode.commands.registerCommand('zenco-vscode.reviewPendingPreview', (preview: PendingPreview) => applyPreview(preview, true)),
+        vscode.commands.registerCommand('zenco-vscode.discardPendingPreview', (preview: PendingPreview) => discardPreview(preview))
+    );
 
-                vscode.window.showInformationMessage('Changes discarded.');
+    // History view actions
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.showHistoryEntry', async (entry: HistoryEntry) => {
+            const doc = await vscode.workspace.openTextDocument({
+                content: formatHistoryEntry(entry),
+                language: 'diff'
+            });
+            await vscode.window.showTextDocument(doc, { preview: true });
+        }),
+        vscode.commands.registerCommand('zenco-vscode.revertHistoryEntry', async (entry: HistoryEntry) => {
+            if (await ZencoHistory.getInstance()?.revert(entry)) {
+                vscode.window.showInformationMessage(`✅ Reverted Zenco ${entry.feature}.`);
+            }
+        }),
+        vscode.commands.registerCommand('zenco-vscode.clearHistory', async () => {
+            const choice = await vscode.window.showWarningMessage(
+                'Clear the Zenco history? Cleared runs can no longer be reverted.',
+                { modal: true },
+                'Clear History'
+            );
+            if (choice === 'Clear History') {
+                ZencoHistory.getInstance()?.clear();
+            }
+        })
+    );
+
+    // Feature commands (Refactor File, Add Docstrings, ...)
+    for (const feature of FEATURES) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(feature.command, () => {
+                runZencoFeature(feature.name, (doc, token) => feature.run(doc, { token }), diffViewer, [feature.id], feature.id);
+            })
+        );
+    }
+
+    // Run a feature on the selected lines only
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.runOnSelection', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No file is currently open!');
                 return;
             }
 
-            // Apply logic
-            const edit = new vscode.WorkspaceEdit();
-            const fullRange = new vscode.Range(
-                pendingEditor.document.positionAt(0),
-                pendingEditor.document.positionAt(pendingEditor.document.getText().length)
-            );
+            const range = getSelectionScope(editor);
+            if (!range) {
+                vscode.window.showErrorMessage('Select the code you want Zenco to process first.');
+                return;
+            }
 
-            edit.replace(pendingEditor.document.uri, fullRange, pendingResult.modifiedContent);
-            await vscode.workspace.applyEdit(edit);
+            const feature = await pickFeature('Select a Zenco feature to run on the selection', editor.document.languageId);
+            if (feature) {
+                runZencoFeature(
+                    `${feature.name} (Selection)`,
+                    (doc, token) => feature.run(doc, { range, token }),
+                    diffViewer,
+                    [feature.id],
+                    feature.id
+                );
+            }
+        })
+    );
 
-            vscode.window.showInformationMessage('✅ Changes applied successfully!');
+    // Run a feature on the function or class around the cursor
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.runOnSymbol', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No file is currently open!');
+                return;
+            }
 
-            // Close diff editor
-            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+            const symbol = await getSymbolScope(editor);
+            if (!symbol) {
+                vscode.window.showErrorMessage('No function or class found at the cursor.');
+                return;
+            }
 
-            // Reset state
-            pendingResult = null;
-            pendingEditor = null;
-            resetStatusBar();
+            const feature = await pickFeature(`Select a Zenco feature to run on ${symbol.name}`, editor.document.languageId);
+            if (feature) {
+                runZencoFeature(
+                    `${feature.name} (${symbol.name})`,
+                    (doc, token) => feature.run(doc, { range: symbol.range, token }),
+                    diffViewer,
+                    [feature.id],
+                    feature.id
+                );
+            }
+        })
+    );
+
+    // Run a recipe (several features chained into one pipeline)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.runRecipe', async (recipeName?: string) => {
+            const { recipes, errors } = getRecipes();
+            errors.forEach(error => vscode.window.showWarningMessage(error));
+
+            let recipe = recipes.find(r => r.name === recipeName);
+            if (!recipe) {
+                if (recipes.length === 0) {
+                    vscode.window.showErrorMessage('No Zenco recipes configured. Add one in the "zenco.recipes" setting.');
+                    return;
+                }
+
+                const selection = await vscode.window.showQuickPick(
+                    recipes.map(r => ({ label: r.name, description: describeRecipe(r), recipe: r })),
+                    { placeHolder: 'Select a Zenco recipe to run' }
+                );
+                recipe = selection?.recipe;
+            }
+
+            if (recipe) {
+                const selected = recipe;
+                runZencoFeature(
+                    `Recipe: ${selected.name}`,
+                    (doc, token) => runRecipe(doc, selected, { token }),
+                    diffViewer,
+                    recipeStepsFor(selected, vscode.window.activeTextEditor?.document.languageId ?? '').map(step => step.id),
+                    selected.name
+                );
+            }
         })
     );
 
-    // Refactor File
+    // Run a feature over a folder (or files selected in the Explorer)
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.refactorFile', () => {
-            runZencoFeature('Refactor File', refactorFile, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.runOnFolder', async (target?: vscode.Uri, selected?: vscode.Uri[]) => {
+            let files: vscode.Uri[];
+
+            if (selected && selected.length > 1) {
+                // Multi-selection in the Explorer: expand folders, keep files as they are
+                const expanded = await Promise.all(selected.map(async uri => {
+                    const stat = await vscode.workspace.fs.stat(uri);
+                    return stat.type & vscode.FileType.Directory ? findFilesToProcess(uri) : [uri];
+                }));
+                files = expanded.flat();
+            } else {
+                let folder = target;
+                if (!folder) {
+                    const picked = await vscode.window.showOpenDialog({
+                        canSelectFolders: true,
+                        canSelectFiles: false,
+                        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                        openLabel: 'Run Zenco on Folder'
+                    });
+                    folder = picked?.[0];
+                }
+                if (!folder) {
+                    return;
+                }
+
+                const stat = await vscode.workspace.fs.stat(folder);
+                files = stat.type & vscode.FileType.Directory ? await findFilesToProcess(folder) : [folder];
+            }
+
+            const feature = await pickFeature(`Select a Zenco feature to run on ${files.length} file(s)`);
+            if (feature) {
+                await runFeatureOnFiles(feature, files, outputChannel, diffViewer);
+            }
         })
     );
 
-    // Add Docstrings
+    // Run a feature over the whole workspace
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.addDocstrings', () => {
-            runZencoFeature('Add Docstrings', addDocstrings, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.runOnWorkspace', async () => {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showErrorMessage('Open a folder or workspace first.');
+                return;
+            }
+
+            const files = await findFilesToProcess();
+            const feature = await pickFeature(`Select a Zenco feature to run on ${files.length} workspace file(s)`);
+            if (feature) {
+                await runFeatureOnFiles(feature, files, outputChannel, diffViewer);
+            }
         })
     );
 
-    // Add Type Hints
+    // Run a feature over files matching a glob
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.addTypeHints', () => {
-            runZencoFeature('Add Type Hints', addTypeHints, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.runOnGlob', async () => {
+            const glob = await vscode.window.showInputBox({
+                prompt: 'Files to process (glob relative to the workspace)',
+                value: 'src/**/*.py',
+                ignoreFocusOut: true
+            });
+            if (!glob) {
+                return;
+            }
+
+            const files = await findFilesToProcess(undefined, glob);
+            const feature = await pickFeature(`Select a Zenco feature to run on ${files.length} file(s) matching ${glob}`);
+            if (feature) {
+                await runFeatureOnFiles(feature, files, outputChannel, diffViewer);
+            }
         })
     );
 
-    // Fix Magic Numbers
+    // Run a feature over the files changed relative to HEAD, the index or a branch
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.fixMagicNumbers', () => {
-            runZencoFeature('Fix Magic Numbers', fixMagicNumbers, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.runOnChangedFiles', async () => {
+            const scope = await pickGitScope();
+            if (!scope) {
+                return;
+            }
+
+            const files = await findChangedFiles(scope);
+            const feature = await pickFeature(`Select a Zenco feature to run on ${files.length} file(s) changed since ${scope.base.label}`);
+            if (feature) {
+                await runFeatureOnFiles(feature, files, outputChannel, diffViewer);
+            }
         })
     );
 
-    // Remove Dead Code
+    // Same, but only keep results that touch the lines you changed
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.removeDeadCode', () => {
-            runZencoFeature('Remove Dead Code', removeDeadCode, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.runOnMyChanges', async () => {
+            const scope = await pickGitScope();
+            if (!scope) {
+                return;
+            }
+
+            const files = await findChangedFiles(scope);
+            const feature = await pickFeature(`Select a Zenco feature to run on lines changed since ${scope.base.label}`);
+            if (feature) {
+                await runFeatureOnFiles(limitToChangedLines(feature, scope), files, outputChannel, diffViewer);
+            }
         })
     );
 
-    // Refactor File (Strict Mode)
+    // Analyze File: publish all findings as diagnostics without changing the file
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.refactorFileStrict', () => {
-            runZencoFeature('Refactor File (Strict)', refactorFileStrict, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.analyzeFile', () => {
+            // The analysis is a refactor run (with its pinned profile) whose changes become diagnostics
+            const feature = getFeature('refactorFile');
+            if (feature) {
+                runZencoFeature(
+                    'Analyze File',
+                    (doc, token) => feature.run(doc, { token }),
+                    diffViewer,
+                    [feature.id],
+                    feature.id,
+                    'Show as Problems (Quick Fixes)'
+                );
+            }
         })
     );
 
-    // Improve Existing Docstrings
+    // Show the results of this session's runs
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.improveDocstrings', () => {
-            runZencoFeature('Improve Docstrings', improveDocstrings, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.showResults', () => {
+            ZencoResultsPanel.getInstance()?.show();
         })
     );
 
-    // Remove Dead Code (Strict Mode)
+    // Clear Zenco diagnostics
     context.subscriptions.push(
-        vscode.commands.registerCommand('zenco-vscode.removeDeadCodeStrict', () => {
-            runZencoFeature('Remove Dead Code (Strict)', removeDeadCodeStrict, outputChannel, diffViewer);
+        vscode.commands.registerCommand('zenco-vscode.clearDiagnostics', () => {
+            diagnostics.clear();
         })
     );
 
@@ -293,20 +712,113 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Show the configuration in effect for a file or folder (settings merged with .zenco.json / pyproject.toml)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.showEffectiveConfig', async (target?: vscode.Uri) => {
+            const document = target ? undefined : vscode.window.activeTextEditor?.document;
+            let uri = target ?? document?.uri;
+            if (!uri) {
+                const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Show the Zenco configuration of' });
+                uri = folder?.uri;
+            }
+            if (!uri) {
+                return;
+            }
+
+            const project = ProjectConfig.resolve(uri);
+            const config = ZencoConfig.getConfig(document ?? uri);
+            const effective = {
+                resource: uri.scheme === 'file' ? uri.fsPath : uri.toString(),
+                sources: project.sources.map(source => source.fsPath),
+                problems: project.errors,
+                excluded: ProjectConfig.isExcluded(uri),
+                effective: {
+                    profile: config.profile,
+                    provider: config.provider,
+                    model: config.model,
+                    baseUrl: config.baseUrl || undefined,
+                    docstringStyle: config.docstringStyle ?? 'auto',
+                    strategy: config.strategy,
+                    features: featuresFor(document?.languageId ?? languageOfFile(uri))
+                        .map(feature => feature.id)
+                        .filter(id => !project.settings.features || project.settings.features.includes(id)),
+                    exclude: project.settings.exclude ?? []
+                }
+            };
+
+            const report = await vscode.workspace.openTextDocument({
+                language: 'json',
+                content: JSON.stringify(effective, null, 2)
+            });
+            await vscode.window.showTextDocument(report, { preview: true });
+        })
+    );
+
+    // Set API Key (stored in VS Code secret storage, one per provider)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.setApiKey', async () => {
+            const activeProvider = ZencoConfig.getConfig().provider;
+            const providers = [activeProvider, ...PROVIDERS.filter(p => p !== activeProvider)];
+
+            const items = await Promise.all(providers.map(async provider => ({
+                label: provider,
+                description: provider === activeProvider ? 'active' : undefined,
+                detail: (await ZencoConfig.getApiKey(provider)) ? '$(key) Key stored' : 'No key stored'
+            })));
+
+            const selection = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select the provider to set the API key for'
+            });
+            if (!selection) {
+                return;
+            }
+
+            const apiKey = await vscode.window.showInputBox({
+                prompt: `API key for ${selection.label} (leave empty to remove the stored key)`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (apiKey === undefined) {
+                return;
+            }
+
+            if (apiKey.trim()) {
+                await ZencoConfig.setApiKey(selection.label, apiKey.trim());
+                vscode.window.showInformationMessage(`✅ API key for ${selection.label} stored securely.`);
+            } else {
+                await ZencoConfig.deleteApiKey(selection.label);
+                vscode.window.showInformationMessage(`API key for ${selection.label} removed.`);
+            }
+        })
+    );
+
     // Show Menu (Status Bar Click)
     context.subscriptions.push(
         vscode.commands.registerCommand('zenco-vscode.showMenu', async () => {
-            const options = [
+            const options: (vscode.QuickPickItem & { command: string; args?: unknown[] })[] = [
                 { label: '$(gear) Configure Zenco', command: 'zenco-vscode.openSettings' },
+                { label: '$(key) Set API Key', command: 'zenco-vscode.setApiKey' },
+                { label: '$(hubot) Select Model', command: 'zenco-vscode.selectModel' },
+                { label: '$(layers) Select Profile', command: 'zenco-vscode.selectProfile' },
+                { label: '$(plug) Test Connection', command: 'zenco-vscode.testConnection' },
+                { label: '$(settings) Show Effective Configuration', command: 'zenco-vscode.showEffectiveConfig' },
                 { label: '$(cloud-download) Check CLI Installation', command: 'zenco-vscode.checkCli' },
-                { label: '$(beaker) Refactor File', command: 'zenco-vscode.refactorFile' },
-                { label: '$(beaker) Refactor File (Strict)', command: 'zenco-vscode.refactorFileStrict' },
-                { label: '$(book) Add Docstrings', command: 'zenco-vscode.addDocstrings' },
-                { label: '$(book) Improve Existing Docstrings', command: 'zenco-vscode.improveDocstrings' },
-                { label: '$(symbol-parameter) Add Type Hints', command: 'zenco-vscode.addTypeHints' },
-                { label: '$(wand) Fix Magic Numbers', command: 'zenco-vscode.fixMagicNumbers' },
-                { label: '$(trash) Remove Dead Code', command: 'zenco-vscode.removeDeadCode' },
-                { label: '$(trash) Remove Dead Code (Strict)', command: 'zenco-vscode.removeDeadCodeStrict' }
+                ...featuresFor(vscode.window.activeTextEditor?.document.languageId)
+                    .map(feature => ({ label: `${feature.icon} ${feature.name}`, command: feature.command })),
+                ...getRecipes().recipes.map(recipe => ({
+                    label: `$(list-ordered) Recipe: ${recipe.name}`,
+                    description: describeRecipe(recipe),
+                    command: 'zenco-vscode.runRecipe',
+                    args: [recipe.name]
+                })),
+                { label: '$(folder) Run on Folder...', command: 'zenco-vscode.runOnFolder' },
+                { label: '$(root-folder) Run on Workspace...', command: 'zenco-vscode.runOnWorkspace' },
+                { label: '$(git-compare) Run on Changed Files...', command: 'zenco-vscode.runOnChangedFiles' },
+                { label: '$(git-commit) Run on My Changes...', command: 'zenco-vscode.runOnMyChanges' },
+                { label: '$(search) Analyze File (Show as Problems)', command: 'zenco-vscode.analyzeFile' },
+                { label: '$(output) Show Results', command: 'zenco-vscode.showResults' },
+                { label: '$(selection) Run on Selection...', command: 'zenco-vscode.runOnSelection' },
+                { label: '$(symbol-method) Run on Function/Class at Cursor...', command: 'zenco-vscode.runOnSymbol' }
             ];
 
             const selection = await vscode.window.showQuickPick(options, {
@@ -314,7 +826,7 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             if (selection) {
-                vscode.commands.executeCommand(selection.command);
+                vscode.commands.executeCommand(selection.command, ...(selection.args ?? []));
             }
         })
     );
@@ -364,6 +876,75 @@ export function activate(context: vscode.ExtensionContext) {
             await ensureCliInstalled(context, true);
         })
     );
+
+    // Pick the provider and model (also from the status bar)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.selectModel', async () => {
+            await selectModel(vscode.window.activeTextEditor?.document);
+            updateModelStatus();
+        })
+    );
+
+    // Switch between the profiles of zenco.profiles
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.selectProfile', async () => {
+            await selectProfile(vscode.window.activeTextEditor?.document);
+            updateModelStatus();
+        })
+    );
+
+    // Check provider, key and model with a cheap request instead of a real run
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.testConnection', async () => {
+            const report = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Zenco: Testing connection...',
+                cancellable: true
+            }, (progress, token) => testConnection(vscode.window.activeTextEditor?.document, token));
+
+            if (report.success) {
+                vscode.window.showInformationMessage(`✅ ${report.message}`);
+            } else {
+                const choice = await vscode.window.showErrorMessage(`❌ ${report.message}`, 'Select Model', 'Set API Key');
+                if (choice === 'Select Model') {
+                    vscode.commands.executeCommand('zenco-vscode.selectModel');
+                } else if (choice === 'Set API Key') {
+                    vscode.commands.executeCommand('zenco-vscode.setApiKey');
+                }
+            }
+        })
+    );
+
+    // Start counting usage afresh
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.resetUsage', async () => {
+            const choice = await vscode.window.showWarningMessage(
+                'Reset the recorded Zenco usage? Budgets start again from zero.',
+                { modal: true },
+                'Reset Usage'
+            );
+            if (choice === 'Reset Usage') {
+                usage.reset();
+            }
+        })
+    );
+
+    // Forget cached results, so the next runs ask the provider again
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.clearCache', async () => {
+            const cleared = await ZencoResultCache.getInstance()?.clear();
+            const size = ((cleared?.size ?? 0) / (1024 * 1024)).toFixed(1);
+            vscode.window.showInformationMessage(`Cleared ${cleared?.count ?? 0} cached Zenco result(s) (${size} MB).`);
+        })
+    );
+
+    // Restart the Zenco server, e.g. after upgrading the CLI outside VS Code
+    context.subscriptions.push(
+        vscode.commands.registerCommand('zenco-vscode.restartServer', () => {
+            server.restart();
+            vscode.window.showInformationMessage('Zenco server will restart on the next run.');
+        })
+    );
 }
 
 export function deactivate() { } 
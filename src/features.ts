@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import {
+    refactorFile,
+    refactorFileStrict,
+    addDocstrings,
+    improveDocstrings,
+    addTypeHints,
+    fixMagicNumbers,
+    removeDeadCode,
+    removeDeadCodeStrict,
+    ZencoResult,
+    ZencoRunOptions
+} from './zencoRunner';
+import { isFeatureSupported } from './languages';
+import { ZencoConfig } from './config';
+import { ZencoCapabilities } from './capabilities';
+
+/**
+ * A Zenco feature as offered in menus and commands
+ */
+export interface ZencoFeature {
+    /** Short id used in settings such as `zenco.recipes` */
+    id: string;
+    /** Command id registered for the feature */
+    command: string;
+    /** Human readable name, also used in progress and result messages */
+    name: string;
+    /** Codicon shown in quick picks */
+    icon: string;
+    /** CLI flags the feature runs with */
+    options: string[];
+    /** Runs with the profile pinned to the feature in `zenco.pinnedProfiles`, unless `runOptions.profile` is given */
+    run: (document: vscode.TextDocument, runOptions?: ZencoRunOptions) => Promise<ZencoResult>;
+}
+
+type FeatureRun = (document: vscode.TextDocument, runOptions?: ZencoRunOptions) => Promise<ZencoResult>;
+
+/**
+ * Make a feature use its pinned profile
+ */
+function pinned(id: string, run: FeatureRun): FeatureRun {
+    return (document, runOptions = {}) =>
+        run(document, { ...runOptions, profile: runOptions.profile ?? ZencoConfig.getPinnedProfile(id, document) });
+}
+
+export const FEATURES: ZencoFeature[] = [
+    {
+        id: 'refactorFile', command: 'zenco-vscode.refactorFile', name: 'Refactor File', icon: '$(beaker)',
+        options: ['--refactor'], run: pinned('refactorFile', refactorFile)
+    },
+    {
+        id: 'refactorFileStrict', command: 'zenco-vscode.refactorFileStrict', name: 'Refactor File (Strict)', icon: '$(beaker)',
+        options: ['--refactor-strict'], run: pinned('refactorFileStrict', refactorFileStrict)
+    },
+    {
+        id: 'addDocstrings', command: 'zenco-vscode.addDocstrings', name: 'Add Docstrings', icon: '$(book)',
+        options: ['--docstrings'], run: pinned('addDocstrings', addDocstrings)
+    },
+    {
+        id: 'improveDocstrings', command: 'zenco-vscode.improveDocstrings', name: 'Improve Docstrings', icon: '$(book)',
+        options: ['--docstrings', '--overwrite-existing'], run: pinned('improveDocstrings', improveDocstrings)
+    },
+    {
+        id: 'addTypeHints', command: 'zenco-vscode.addTypeHints', name: 'Add Type Hints', icon: '$(symbol-parameter)',
+        options: ['--add-type-hints'], run: pinned('addTypeHints', addTypeHints)
+    },
+    {
+        id: 'fixMagicNumbers', command: 'zenco-vscode.fixMagicNumbers', name: 'Fix Magic Numbers', icon: '$(wand)',
+        options: ['--fix-magic-numbers'], run: pinned('fixMagicNumbers', fixMagicNumbers)
+    },
+    {
+        id: 'removeDeadCode', command: 'zenco-vscode.removeDeadCode', name: 'Remove Dead Code', icon: '$(trash)',
+        options: ['--dead-code'], run: pinned('removeDeadCode', removeDeadCode)
+    },
+    {
+        id: 'removeDeadCodeStrict', command: 'zenco-vscode.removeDeadCodeStrict', name: 'Remove Dead Code (Strict)', icon: '$(trash)',
+        options: ['--dead-code-strict'], run: pinned('removeDeadCodeStrict', removeDeadCodeStrict)
+    }
+];
+
+/**
+ * Look up a feature by its id (as used in settings)
+ */
+export function getFeature(id: string): ZencoFeature | undefined {
+    return FEATURES.find(feature => feature.id === id);
+}
+
+/**
+ * The features that apply to a language (all of them if no language is given)
+ * and that the installed CLI supports
+ */
+export function featuresFor(languageId?: string): ZencoFeature[] {
+    const capabilities = ZencoCapabilities.getInstance();
+    return FEATURES.filter(feature =>
+        isFeatureSupported(feature.id, languageId) && (capabilities?.supports(feature.options) ?? true)
+    );
+}
+
+/**
+ * Ask the user which feature to run, offering only those that apply to `languageId`
+ */
+export async function pickFeature(placeHolder: string, languageId?: string): Promise<ZencoFeature | undefined> {
+    const selection = await vscode.window.showQuickPick(
+        featuresFor(languageId).map(feature => ({ label: `${feature.icon} ${feature.name}`, feature })),
+        { placeHolder }
+    );
+    return selection?.feature;
+}
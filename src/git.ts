@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ZencoFeature } from './features';
+import { ZencoResult } from './zencoRunner';
+import { isSupportedFile } from './bulkRun';
+import {
+    LineRange,
+    applyHunks,
+    changedLineRanges,
+    computeHunks,
+    hunkContainsLine,
+    hunkTouchesRanges,
+    mapLineRanges
+} from './changeHunks';
+
+/**
+ * The parts of the built-in Git extension's API (`vscode.git`, version 1) that Zenco uses
+ */
+interface GitExtension {
+    getAPI(version: 1): GitApi;
+}
+
+interface GitApi {
+    readonly repositories: Repository[];
+}
+
+interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly workingTreeChanges: Change[];
+        readonly untrackedChanges?: Change[];
+    };
+    show(ref: string, path: string): Promise<string>;
+    diffWith(ref: string): Promise<Change[]>;
+    diffIndexWithHEAD(): Promise<Change[]>;
+    getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
+    getBranches(query: { remote?: boolean }): Promise<Ref[]>;
+}
+
+interface Ref {
+    readonly name?: string;
+    readonly remote?: string;
+}
+
+interface Change {
+    readonly uri: vscode.Uri;
+    readonly status: number;
+}
+
+// Values of the Git extension's Status enum
+const STATUS_INDEX_DELETED = 2;
+const STATUS_DELETED = 6;
+const STATUS_UNTRACKED = 7;
+
+/**
+ * What changes are compared against
+ */
+export interface GitBase {
+    /** Shown in messages, e.g. "HEAD" or "main" */
+    label: string;
+    /** Commit the working tree is compared with */
+    ref: string;
+    /** Only staged changes (HEAD against the index) count */
+    staged: boolean;
+}
+
+/**
+ * A repository together with the base its changes are measured against
+ */
+export interface GitScope {
+    repository: Repository;
+    base: GitBase;
+}
+
+/**
+ * Ask which repository and base to use. Shows an error and returns undefined
+ * when the Git extension is unavailable or there is no repository.
+ */
+export async function pickGitScope(): Promise<GitScope | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        vscode.window.showErrorMessage('The built-in Git extension is disabled. Enable it to run Zenco on your changes.');
+        return undefined;
+    }
+
+    const api = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+    if (api.repositories.length === 0) {
+        vscode.window.showErrorMessage('No Git repository found in the workspace.');
+        return undefined;
+    }
+
+    let repository: Repository | undefined = api.repositories[0];
+    if (api.repositories.length > 1) {
+        const selection = await vscode.window.showQuickPick(
+            api.repositories.map(repo => ({ label: path.basename(repo.rootUri.fsPath), description: repo.rootUri.fsPath, repo })),
+            { placeHolder: 'Select a Git repository' }
+        );
+        repository = selection?.repo;
+    }
+    if (!repository) {
+        return undefined;
+    }
+
+    const base = await pickBase(repository);
+    return base ? { repository, base } : undefined;
+}
+
+async function pickBase(repository: Repository): Promise<GitBase | undefined> {
+    const branches = await repository.getBranches({ remote: true });
+    const items: (vscode.QuickPickItem & { branch?: string; staged?: boolean })[] = [
+        { label: '$(git-commit) HEAD', description: 'Uncommitted changes, staged or not' },
+        { label: '$(diff-added) Staged changes', description: 'Only what is staged for the next commit', staged: true },
+        { label: 'Branches', kind: vscode.QuickPickItemKind.Separator },
+        ...branches
+            .filter(ref => ref.name && ref.name !== 'HEAD' && !ref.name.endsWith('/HEAD'))
+            .map(ref => ({
+                label: `$(${ref.remote ? 'cloud' : 'git-branch'}) ${ref.name}`,
+                description: 'Changes since the branch point',
+                branch: ref.name
+            }))
+    ];
+
+    const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Compare your changes with' });
+    if (!selection) {
+        return undefined;
+    }
+
+    if (!selection.branch) {
+        return { label: selection.staged ? 'the index' : 'HEAD', ref: 'HEAD', staged: !!selection.staged };
+    }
+
+    // Compare with where the current branch left the base, so changes made on the base itself don't count
+    const mergeBase = await repository.getMergeBase('HEAD', selection.branch);
+    return { label: selection.branch, ref: mergeBase ?? selection.branch, staged: false };
+}
+
+/**
+ * Supported files that were added or modified relative to the base (deleted files are left out)
+ */
+export async function findChangedFiles({ repository, base }: GitScope): Promise<vscode.Uri[]> {
+    const changes = base.staged ? await repository.diffIndexWithHEAD() : [
+        ...await repository.diffWith(base.ref),
+        ...repository.state.workingTreeChanges.filter(change => change.status === STATUS_UNTRACKED),
+        ...(repository.state.untrackedChanges ?? [])
+    ];
+
+    const files = new Map<string, vscode.Uri>();
+    for (const change of changes) {
+        if (change.status !== STATUS_DELETED && change.status !== STATUS_INDEX_DELETED && isSupportedFile(change.uri)) {
+            files.set(change.uri.toString(), change.uri);
+        }
+    }
+
+    return [...files.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * The lines of a document (including unsaved edits) that changed relative to the base
+ */
+export async function getChangedRanges({ repository, base }: GitScope, document: vscode.TextDocument): Promise<LineRange[]> {
+    const current = document.getText();
+
+    if (!base.staged) {
+        return changedLineRanges(await showOrEmpty(repository, base.ref, document.uri), current);
+    }
+
+    // Staged lines are known in the index version; find where they are in the editor now
+    const head = await showOrEmpty(repository, 'HEAD', document.uri);
+    const index = await showOrEmpty(repository, '', document.uri);
+    return mapLineRanges(changedLineRanges(head, index), computeHunks(index, current));
+}
+
+/**
+ * Content of a file at a ref ('' for the index), or '' when it does not exist there
+ */
+async function showOrEmpty(repository: Repository, ref: string, uri: vscode.Uri): Promise<string> {
+    try {
+        return await repository.show(ref, uri.fsPath);
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Wrap a feature so its results only keep the changes that touch lines changed
+ * relative to the Git base. Files without changed lines are not sent to the CLI.
+ */
+export function limitToChangedLines(feature: ZencoFeature, scope: GitScope): ZencoFeature {
+    return {
+        ...feature,
+        name: `${feature.name} (changed lines)`,
+        run: async (document, runOptions) => {
+            const ranges = await getChangedRanges(scope, document);
+            if (ranges.length === 0) {
+                const content = document.getText();
+                return { success: true, status: 'completed', originalContent: content, modifiedContent: content, changes: [] };
+            }
+
+            const result = await feature.run(document, runOptions);
+            return filterResult(result, document.getText(), ranges);
+        }
+    };
+}
+
+function filterResult(result: ZencoResult, documentText: string, ranges: LineRange[]): ZencoResult {
+    if (!result.success || result.modifiedContent === undefined) {
+        return result;
+    }
+
+    const original = result.originalContent ?? documentText;
+    const hunks = computeHunks(original, result.modifiedContent);
+    const kept = hunks.filter(hunk => hunkTouchesRanges(hunk, ranges));
+    const changes = result.changes?.filter(change => kept.some(hunk => hunkContainsLine(hunk, change.line)));
+
+    return {
+        ...result,
+        originalContent: original,
+        modifiedContent: applyHunks(original, kept),
+        changes,
+        output: `${result.output ?? ''}\nLimited to changed lines: kept ${kept.length} of ${hunks.length} change block(s).`
+    };
+}
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ContextHunk, computeContextHunks, revertHunks } from './changeHunks';
+import { Logger } from './logger';
+
+/**
+ * One applied Zenco run, as stored in the journal
+ */
+export interface HistoryEntry {
+    id: string;
+    /** Document URI (as string) the run was applied to */
+    uri: string;
+    feature: string;
+    provider: string;
+    model: string;
+    /** ISO timestamp of when the changes were applied */
+    timestamp: string;
+    /** sha256 of the document text before the changes were applied */
+    originalHash: string;
+    hunks: ContextHunk[];
+    reverted?: boolean;
+}
+
+/**
+ * Details of an applied run needed to record it
+ */
+export interface AppliedRun {
+    uri: vscode.Uri;
+    feature: string;
+    provider: string;
+    model: string;
+    before: string;
+    after: string;
+}
+
+const MAX_ENTRIES = 200;
+
+/**
+ * Journal of applied runs, persisted in the extension's global storage so
+ * runs can be inspected and reverted after restarts
+ */
+export class ZencoHistory implements vscode.TreeDataProvider<HistoryEntry> {
+    private static instance: ZencoHistory | undefined;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<HistoryEntry | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private entries: HistoryEntry[] = [];
+    private readonly storageUri: vscode.Uri;
+    private readonly file: vscode.Uri;
+    // Writes are chained so concurrent records never interleave
+    private saving: Promise<void> = Promise.resolve();
+
+    private constructor(storageUri: vscode.Uri) {
+        this.storageUri = storageUri;
+        this.file = vscode.Uri.joinPath(storageUri, 'history.json');
+    }
+
+    /**
+     * Create the journal and load the entries saved by earlier sessions
+     */
+    static async initialize(context: vscode.ExtensionContext): Promise<ZencoHistory> {
+        const history = new ZencoHistory(context.globalStorageUri);
+        ZencoHistory.instance = history;
+
+        try {
+            const data = await vscode.workspace.fs.readFile(history.file);
+            history.entries = JSON.parse(Buffer.from(data).toString('utf8'));
+            history._onDidChangeTreeData.fire(undefined);
+        } catch {
+            // No history yet
+        }
+
+        return history;
+    }
+
+    static getInstance(): ZencoHistory | undefined {
+        return ZencoHistory.instance;
+    }
+
+    /**
+     * Record an applied run (newest first, keeping at most MAX_ENTRIES)
+     */
+    record(run: AppliedRun): void {
+        const hunks = computeContextHunks(run.before, run.after);
+        if (hunks.length === 0) {
+            return;
+        }
+
+        this.entries.unshift({
+            id: crypto.randomUUID(),
+            uri: run.uri.toString(),
+            feature: run.feature,
+            provider: run.provider,
+            model: run.model,
+            timestamp: new Date().toISOString(),
+            originalHash: hashContent(run.before),
+            hunks
+        });
+        this.entries.length = Math.min(this.entries.length, MAX_ENTRIES);
+
+        this.save();
+    }
+
+    /**
+     * Undo a recorded run on the current text of its document. Changes that were
+     * edited again since are reported; the user decides whether to revert the rest.
+     *
+     * @returns true if the document was updated
+     */
+    async revert(entry: HistoryEntry): Promise<boolean> {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.uri));
+        } catch {
+            vscode.window.showErrorMessage('Cannot revert: the file no longer exists (or was an untitled document that has been closed).');
+            return false;
+        }
+
+        const current = document.getText();
+        const reverted = revertHunks(current, entry.hunks);
+
+        if (reverted.conflicts.length === entry.hunks.length) {
+            vscode.window.showErrorMessage(
+                `Cannot revert: all ${entry.hunks.length} change(s) from this run were edited again since it was applied.`
+            );
+            return false;
+        }
+
+        if (reverted.conflicts.length > 0) {
+            const lines = reverted.conflicts.map(hunk => hunk.modifiedStart + 1).join(', ');
+            const choice = await vscode.window.showWarningMessage(
+                `${reverted.conflicts.length} of ${entry.hunks.length} change(s) cannot be reverted cleanly because ` +
+                `the code was edited again (originally around line(s) ${lines}). Revert the others?`,
+                { modal: true },
+                'Revert the Others'
+            );
+            if (choice !== 'Revert the Others') {
+                return false;
+            }
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(current.length)), reverted.text);
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            return false;
+        }
+
+        entry.reverted = true;
+        this.save();
+        return true;
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.save();
+    }
+
+    getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+        const uri = vscode.Uri.parse(entry.uri);
+        const time = new Date(entry.timestamp);
+        const item = new vscode.TreeItem(path.basename(uri.path), vscode.TreeItemCollapsibleState.None);
+
+        item.id = entry.id;
+        item.description = `${entry.feature} · ${time.toLocaleString()}${entry.reverted ? ' · reverted' : ''}`;
+        item.tooltip = `${uri.fsPath || entry.uri}\n${entry.feature} with ${entry.provider}` +
+            `${entry.model ? ` (${entry.model})` : ''}\n${entry.hunks.length} change(s), applied ${time.toLocaleString()}`;
+        item.resourceUri = uri;
+        item.iconPath = new vscode.ThemeIcon(entry.reverted ? 'discard' : 'history');
+        item.contextValue = entry.reverted ? 'zencoHistoryEntryReverted' : 'zencoHistoryEntry';
+        item.command = {
+            command: 'zenco-vscode.showHistoryEntry',
+            title: 'Show Changes',
+            arguments: [entry]
+        };
+
+        return item;
+    }
+
+    getChildren(element?: HistoryEntry): HistoryEntry[] {
+        return element ? [] : this.entries;
+    }
+
+    private save(): void {
+        this._onDidChangeTreeData.fire(undefined);
+
+        const content = Buffer.from(JSON.stringify(this.entries), 'utf8');
+        this.saving = this.saving
+            .then(async () => {
+                await vscode.workspace.fs.createDirectory(this.storageUri);
+                await vscode.workspace.fs.writeFile(this.file, content);
+            })
+            .catch(error => Logger.getInstance().error('Failed to save Zenco history: ' + String(error)));
+    }
+}
+
+/**
+ * Render an entry as a unified-diff-like text for inspection
+ */
+export function formatHistoryEntry(entry: HistoryEntry): string {
+    const uri = vscode.Uri.parse(entry.uri);
+    const lines = [
+        `# Zenco ${entry.feature} on ${uri.fsPath || entry.uri}`,
+        `# Applied ${new Date(entry.timestamp).toLocaleString()} with ${entry.provider}${entry.model ? ` (${entry.model})` : ''}`,
+        `# Original content sha256: ${entry.originalHash}`,
+        ''
+    ];
+
+    for (const hunk of entry.hunks) {
+        lines.push(
+            `@@ -${hunk.originalStart + 1},${hunk.originalLines.length} +${hunk.modifiedStart + 1},${hunk.modifiedLines.length} @@`
+        );
+        lines.push(...hunk.contextBefore.map(line => ' ' + line));
+        lines.push(...hunk.originalLines.map(line => '-' + line));
+        lines.push(...hunk.modifiedLines.map(line => '+' + line));
+        lines.push(...hunk.contextAfter.map(line => ' ' + line));
+    }
+
+    return lines.join('\n');
+}
+
+export function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
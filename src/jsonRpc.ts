@@ -0,0 +1,182 @@
+import { Readable, Writable } from 'stream';
+
+/**
+ * Error returned by the server for a request (as opposed to the server failing)
+ */
+export class ZencoServerError extends Error {
+    constructor(message: string, readonly code: number) {
+        super(message);
+        this.name = 'ZencoServerError';
+    }
+}
+
+interface PendingRequest {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * A message from the server, as far as the client cares (not validated yet)
+ */
+interface JsonRpcMessage {
+    id?: unknown;
+    result?: unknown;
+    error?: { code?: unknown; message?: unknown };
+}
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * Frame a JSON-RPC message with a `Content-Length` header, as in the base
+ * protocol of the Language Server Protocol. The length counts bytes, not characters.
+ */
+export function encodeMessage(message: object): Buffer {
+    const content = Buffer.from(JSON.stringify(message), 'utf8');
+    return Buffer.concat([Buffer.from(`Content-Length: ${content.length}${HEADER_END}`, 'ascii'), content]);
+}
+
+/**
+ * Reassembles `Content-Length` framed messages from chunks of a stream, which
+ * can end anywhere: inside a header, between messages or in the middle of one
+ */
+export class MessageReader {
+    private buffer = Buffer.alloc(0);
+
+    /**
+     * @param onMessage - Called with the content of each complete message
+     * @param onInvalid - Called with header blocks that have no valid length; they are skipped
+     */
+    constructor(
+        private readonly onMessage: (content: string) => void,
+        private readonly onInvalid: (header: string) => void = () => undefined
+    ) {}
+
+    push(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        for (;;) {
+            const headerEnd = this.buffer.indexOf(HEADER_END);
+            if (headerEnd === -1) {
+                return;
+            }
+
+            const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+            const contentStart = headerEnd + HEADER_END.length;
+            const length = header.match(/^content-length:[ \t]*(\d+)[ \t]*$/im);
+            if (!length) {
+                this.buffer = this.buffer.subarray(contentStart);
+                this.onInvalid(header);
+                continue;
+            }
+
+            const contentEnd = contentStart + Number(length[1]);
+            if (this.buffer.length < contentEnd) {
+                return;
+            }
+
+            const content = this.buffer.subarray(contentStart, contentEnd).toString('utf8');
+            this.buffer = this.buffer.subarray(contentEnd);
+            this.onMessage(content);
+        }
+    }
+}
+
+/**
+ * A JSON-RPC 2.0 client over a pair of streams (the server's stdout and stdin).
+ * Responses are matched to requests by id; responses to unknown ids, such as
+ * late answers to cancelled requests, are ignored.
+ */
+export class JsonRpcConnection {
+    private readonly pending = new Map<number, PendingRequest>();
+    private nextId = 1;
+    private closedWith: Error | undefined;
+
+    /**
+     * @param log - Receives what the server wrote that is not a JSON-RPC message
+     */
+    constructor(
+        input: Readable,
+        private readonly output: Writable,
+        private readonly log: (text: string) => void = () => undefined
+    ) {
+        const reader = new MessageReader(content => this.onMessage(content), header => this.log(header));
+        input.on('data', (chunk: Buffer | string) => reader.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf8')));
+        input.on('end', () => this.close(new Error('Zenco server closed its output')));
+    }
+
+    /**
+     * Send a request
+     *
+     * @returns The request's id (for `cancel`) and its result, which rejects with
+     * ZencoServerError if the server answers with an error and Error if the connection closes first
+     */
+    request(method: string, params: object): { id: number; result: Promise<unknown> } {
+        const id = this.nextId++;
+        const result = new Promise<unknown>((resolve, reject) => {
+            if (this.closedWith) {
+                reject(this.closedWith);
+                return;
+            }
+            this.pending.set(id, { resolve, reject });
+            this.output.write(encodeMessage({ jsonrpc: '2.0', id, method, params }));
+        });
+        return { id, result };
+    }
+
+    notify(method: string, params: object): void {
+        if (!this.closedWith) {
+            this.output.write(encodeMessage({ jsonrpc: '2.0', method, params }));
+        }
+    }
+
+    /**
+     * Stop waiting for a request and ask the server to stop working on it. Its
+     * result promise is left unsettled; the caller settles its own.
+     */
+    cancel(id: number): void {
+        if (this.pending.delete(id)) {
+            this.notify('$/cancelRequest', { id });
+        }
+    }
+
+    /**
+     * Reject every pending and future request with `error`, e.g. because the server exited
+     */
+    close(error: Error): void {
+        if (this.closedWith) {
+            return;
+        }
+        this.closedWith = error;
+        for (const request of this.pending.values()) {
+            request.reject(error);
+        }
+        this.pending.clear();
+    }
+
+    private onMessage(content: string): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(content);
+        } catch {
+            this.log(content);
+            return;
+        }
+        if (typeof message !== 'object' || message === null) {
+            this.log(content);
+            return;
+        }
+
+        const { id, result, error } = message as JsonRpcMessage;
+        const request = typeof id === 'number' ? this.pending.get(id) : undefined;
+        if (typeof id !== 'number' || !request) {
+            return;
+        }
+
+        this.pending.delete(id);
+        if (error) {
+            request.reject(new ZencoServerError(String(error.message ?? 'unknown error'), typeof error.code === 'number' ? error.code : 0));
+        } else {
+            request.resolve(result);
+        }
+    }
+}
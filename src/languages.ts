@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * What Zenco offers for one language
+ */
+export interface LanguageSupport {
+    /** Name shown in messages */
+    name: string;
+    /** Docstring styles that make sense for the language; the first one is the default */
+    docstringStyles: string[];
+    /** Ids of features that don't apply to the language */
+    unsupportedFeatures: string[];
+}
+
+const JAVASCRIPT: LanguageSupport = { name: 'JavaScript', docstringStyles: ['jsdoc'], unsupportedFeatures: ['addTypeHints'] };
+const TYPESCRIPT: LanguageSupport = { name: 'TypeScript', docstringStyles: ['jsdoc'], unsupportedFeatures: ['addTypeHints'] };
+const C_FAMILY: LanguageSupport = { name: 'C/C++', docstringStyles: ['doxygen'], unsupportedFeatures: ['addTypeHints'] };
+
+/**
+ * Languages the CLI supports, by VS Code language id
+ */
+const LANGUAGE_SUPPORT: Record<string, LanguageSupport> = {
+    python: { name: 'Python', docstringStyles: ['google', 'numpy', 'rst'], unsupportedFeatures: [] },
+    javascript: JAVASCRIPT,
+    javascriptreact: JAVASCRIPT,
+    typescript: TYPESCRIPT,
+    typescriptreact: TYPESCRIPT,
+    java: { name: 'Java', docstringStyles: ['javadoc'], unsupportedFeatures: ['addTypeHints'] },
+    go: { name: 'Go', docstringStyles: ['godoc'], unsupportedFeatures: ['addTypeHints'] },
+    c: C_FAMILY,
+    cpp: C_FAMILY
+};
+
+/**
+ * Language id of source files, by file extension
+ */
+const FILE_LANGUAGES: Record<string, string> = {
+    py: 'python',
+    js: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    tsx: 'typescriptreact',
+    java: 'java',
+    go: 'go',
+    c: 'c',
+    h: 'c',
+    cc: 'cpp',
+    cpp: 'cpp',
+    cxx: 'cpp',
+    hpp: 'cpp'
+};
+
+/**
+ * Extensions of the source files Zenco can process
+ */
+export const SUPPORTED_EXTENSIONS = Object.keys(FILE_LANGUAGES);
+
+export function getLanguageSupport(languageId: string | undefined): LanguageSupport | undefined {
+    return languageId ? LANGUAGE_SUPPORT[languageId] : undefined;
+}
+
+/**
+ * Language id of a file on disk, guessed from its extension
+ */
+export function languageOfFile(uri: vscode.Uri): string | undefined {
+    return FILE_LANGUAGES[path.extname(uri.fsPath).slice(1).toLowerCase()];
+}
+
+/**
+ * Whether a feature applies to a language (features are not restricted for unknown languages)
+ */
+export function isFeatureSupported(featureId: string, languageId: string | undefined): boolean {
+    return !getLanguageSupport(languageId)?.unsupportedFeatures.includes(featureId);
+}
+
+/**
+ * The docstring style to send to the CLI. `auto`, or a style that belongs to
+ * another language (e.g. `numpy` for a Java file), becomes the language's default.
+ *
+ * @returns undefined if no style should be sent (`auto` for an unknown language)
+ */
+export function resolveDocstringStyle(configured: string, languageId: string | undefined): string | undefined {
+    const support = getLanguageSupport(languageId);
+    if (!support) {
+        return configured === 'auto' ? undefined : configured;
+    }
+    return support.docstringStyles.includes(configured) ? configured : support.docstringStyles[0];
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { ZencoConfig } from './config';
+import { ProjectConfig } from './projectConfig';
+import { isFeatureSupported } from './languages';
+import { getFeature, ZencoFeature } from './features';
+import { runZencoPipeline, isSupportedLanguage } from './zencoRunner';
+import { getCliInstallation } from './cliManager';
+import { computeHunks } from './changeHunks';
+import { hunkEdit } from './diagnostics';
+import { ZencoHistory, AppliedRun } from './history';
+import { ZencoUsage } from './usage';
+import { Logger } from './logger';
+
+/**
+ * VS Code stops waiting for a save participant after about 1.5 seconds and
+ * ignores participants that keep running over, so the budget is capped below that
+ */
+const MAX_ON_SAVE_TIMEOUT_MS = 1400;
+
+/**
+ * Runs the features configured in `zenco.onSave.*` while a document is being
+ * saved, like format-on-save. Anything that gets in the way (no CLI, missing
+ * API key, over budget, document edited meanwhile) skips the run silently;
+ * the reason is only logged.
+ */
+export class ZencoOnSave implements vscode.Disposable {
+    private readonly subscriptions: vscode.Disposable[];
+    // Runs whose edits were handed to VS Code, recorded in the history once the saved text shows they were applied
+    private readonly pending = new Map<string, AppliedRun>();
+
+    constructor() {
+        this.subscriptions = [
+            vscode.workspace.onWillSaveTextDocument(event => this.onWillSave(event)),
+            vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document))
+        ];
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+    }
+
+    private onWillSave(event: vscode.TextDocumentWillSaveEvent): void {
+        const { document } = event;
+        this.pending.delete(document.uri.toString());
+
+        // Like format-on-save, auto saves after a delay are left alone
+        if (event.reason === vscode.TextDocumentSaveReason.AfterDelay || !isSupportedLanguage(document.languageId)) {
+            return;
+        }
+
+        const settings = ZencoConfig.getOnSaveConfig(document);
+        if (!settings.enabled) {
+            return;
+        }
+
+        const features = settings.features
+            .map(id => getFeature(id))
+            .filter((feature): feature is ZencoFeature => feature !== undefined)
+            .filter(feature => isFeatureSupported(feature.id, document.languageId));
+        if (features.length === 0 || ProjectConfig.checkAllowed(document.uri, features.map(feature => feature.id))) {
+            return;
+        }
+
+        // waitUntil has to be called synchronously, before this handler returns
+        event.waitUntil(this.run(document, features, Math.min(settings.timeoutMs, MAX_ON_SAVE_TIMEOUT_MS)));
+    }
+
+    /**
+     * VS Code drops the edits of participants that run over time or conflict, so
+     * a run only goes into the history if the saved text is what it produced
+     */
+    private onDidSave(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const run = this.pending.get(key);
+        this.pending.delete(key);
+
+        // Inserted text takes the document's line endings
+        const normalize = (text: string) => text.replace(/\r\n/g, '\n');
+        if (run && normalize(document.getText()) === normalize(run.after)) {
+            ZencoHistory.getInstance()?.record(run);
+        } else if (run) {
+            Logger.getInstance().info(`On save: Zenco's edits to ${document.fileName} were not applied, not recorded in the history`);
+        }
+    }
+
+    private async run(document: vscode.TextDocument, features: ZencoFeature[], timeoutMs: number): Promise<vscode.TextEdit[]> {
+        const logger = Logger.getInstance();
+        const tokenSource = new vscode.CancellationTokenSource();
+        const timer = setTimeout(() => tokenSource.cancel(), timeoutMs);
+        const names = features.map(feature => feature.name).join(', ');
+
+        try {
+            // A missing CLI is remembered until it is installed, instead of being looked for on every save
+            if (!(await getCliInstallation(false)).installed) {
+                logger.info(`On save: skipped ${document.fileName}, Zenco CLI is not available`);
+                return [];
+            }
+
+            // Each feature runs with the profile pinned to it, so check the settings it will use
+            const steps = features.map(feature => ({
+                name: feature.name,
+                options: feature.options,
+                profile: ZencoConfig.getPinnedProfile(feature.id, document)
+            }));
+            for (const step of steps) {
+                const configCheck = await ZencoConfig.isConfigValid(document, step.profile);
+                if (!configCheck.valid) {
+                    logger.info(`On save: skipped ${document.fileName}, ${step.name}: ${configCheck.message}`);
+                    return [];
+                }
+            }
+
+            const budget = ZencoUsage.getInstance()?.checkBudget(features.length);
+            if (budget?.blocked) {
+                logger.info(`On save: skipped ${document.fileName}, ${budget.blocked}`);
+                return [];
+            }
+
+            const before = document.getText();
+            const version = document.version;
+            const result = await runZencoPipeline(document, steps, { token: tokenSource.token });
+
+            if (!result.success || result.modifiedContent === undefined) {
+                const reason = result.status === 'cancelled' ? `it took longer than ${timeoutMs} ms` : result.error;
+                logger.info(`On save: skipped ${document.fileName}, ${reason}`);
+                return [];
+            }
+
+            if (document.version !== version) {
+                logger.info(`On save: skipped ${document.fileName}, it was edited while Zenco was running`);
+                return [];
+            }
+
+            const hunks = computeHunks(before, result.modifiedContent);
+            if (hunks.length > 0) {
+                const config = ZencoConfig.getConfig(document);
+                this.pending.set(document.uri.toString(), {
+                    uri: document.uri,
+                    feature: `On Save: ${names}`,
+                    provider: config.provider,
+                    model: config.model,
+                    before,
+                    after: result.modifiedContent
+                });
+            }
+
+            return hunks.map(hunk => {
+                const { range, text } = hunkEdit(document, hunk);
+                return new vscode.TextEdit(range, text);
+            });
+        } catch (error) {
+            logger.error(`On save: ${names} failed for ${document.fileName}: ${String(error)}`);
+            return [];
+        } finally {
+            clearTimeout(timer);
+            tokenSource.dispose();
+        }
+    }
+}
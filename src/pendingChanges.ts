@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ZencoResult } from './zencoRunner';
+import { RunSnapshot } from './applyChanges';
+
+/**
+ * A previewed run waiting to be applied or discarded
+ */
+export interface PendingPreview {
+    id: string;
+    featureName: string;
+    result: ZencoResult;
+    snapshot: RunSnapshot;
+    createdAt: Date;
+}
+
+/**
+ * Holds every outstanding preview and shows them in the "Pending Changes" view
+ */
+export class PendingChangesProvider implements vscode.TreeDataProvider<PendingPreview> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<PendingPreview | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private previews = new Map<string, PendingPreview>();
+    private nextId = 1;
+
+    add(featureName: string, result: ZencoResult, snapshot: RunSnapshot): PendingPreview {
+        const preview: PendingPreview = {
+            id: String(this.nextId++),
+            featureName,
+            result,
+            snapshot,
+            createdAt: new Date()
+        };
+
+        this.previews.set(preview.id, preview);
+        this._onDidChangeTreeData.fire(undefined);
+        return preview;
+    }
+
+    remove(preview: PendingPreview) {
+        if (this.previews.delete(preview.id)) {
+            this._onDidChangeTreeData.fire(undefined);
+        }
+    }
+
+    getAll(): PendingPreview[] {
+        return Array.from(this.previews.values());
+    }
+
+    get count(): number {
+        return this.previews.size;
+    }
+
+    getTreeItem(preview: PendingPreview): vscode.TreeItem {
+        const item = new vscode.TreeItem(fileNameOf(preview), vscode.TreeItemCollapsibleState.None);
+        const changeCount = preview.result.changes?.length ?? 0;
+
+        item.id = preview.id;
+        item.description = `${preview.featureName} · ${changeCount} change(s)`;
+        item.tooltip = `${preview.snapshot.uri.fsPath || preview.snapshot.uri.toString()}\n` +
+            `${preview.featureName}, previewed at ${preview.createdAt.toLocaleTimeString()}`;
+        item.resourceUri = preview.snapshot.uri;
+        item.iconPath = new vscode.ThemeIcon('diff');
+        item.contextValue = 'zencoPendingPreview';
+        item.command = {
+            command: 'zenco-vscode.openPendingDiff',
+            title: 'Open Diff',
+            arguments: [preview]
+        };
+
+        return item;
+    }
+
+    getChildren(element?: PendingPreview): PendingPreview[] {
+        return element ? [] : this.getAll();
+    }
+}
+
+/**
+ * File name shown for a preview (also used for its diff editor title)
+ */
+export function fileNameOf(preview: PendingPreview): string {
+    return path.basename(preview.snapshot.uri.path);
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectSettings, parseTomlTable, globToRegExp, mergeProjectSettings, readProjectSettings } from './configFiles';
+import { Logger } from './logger';
+
+export type { ProjectSettings };
+
+/**
+ * The project configuration in effect for one file: every config file from the
+ * workspace folder root down to the file's directory, deeper files winning
+ */
+export interface ResolvedProjectConfig {
+    settings: ProjectSettings;
+    /** Config files that were merged, outermost first */
+    sources: vscode.Uri[];
+    /** Problems found while reading the config files */
+    errors: string[];
+}
+
+/**
+ * A config file found in one directory
+ */
+interface ConfigLayer {
+    file: vscode.Uri;
+    directory: string;
+    settings: ProjectSettings;
+    errors: string[];
+}
+
+const CONFIG_FILE = '.zenco.json';
+const PYPROJECT_FILE = 'pyproject.toml';
+
+export class ProjectConfig {
+    // Parsed config per directory (null: no config there), dropped when a config file changes
+    private static layers = new Map<string, ConfigLayer | null>();
+
+    /**
+     * Watch config files so edits take effect without reloading the window
+     */
+    static initialize(context: vscode.ExtensionContext): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/{${CONFIG_FILE},${PYPROJECT_FILE}}`);
+        const invalidate = () => this.layers.clear();
+
+        context.subscriptions.push(
+            watcher,
+            watcher.onDidCreate(invalidate),
+            watcher.onDidChange(invalidate),
+            watcher.onDidDelete(invalidate),
+            vscode.workspace.onDidChangeWorkspaceFolders(invalidate)
+        );
+    }
+
+    /**
+     * Get the project configuration that applies to a file or folder. Files outside
+     * the workspace folders (and untitled documents) have no project configuration.
+     */
+    static resolve(uri: vscode.Uri): ResolvedProjectConfig {
+        const resolved: ResolvedProjectConfig = { settings: {}, sources: [], errors: [] };
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder || uri.scheme !== 'file') {
+            return resolved;
+        }
+
+        const layers: ConfigLayer[] = [];
+        for (const directory of directoriesBetween(folder.uri.fsPath, directoryOf(uri.fsPath))) {
+            const layer = this.getLayer(directory);
+            if (layer) {
+                layers.push(layer);
+                resolved.sources.push(layer.file);
+                resolved.errors.push(...layer.errors);
+            }
+        }
+
+        resolved.settings = mergeProjectSettings(layers.map(layer => ({
+            directory: toPosix(path.relative(folder.uri.fsPath, layer.directory)),
+            settings: layer.settings
+        })));
+        return resolved;
+    }
+
+    /**
+     * Whether a file is excluded by the `exclude` globs of its project configuration
+     */
+    static isExcluded(uri: vscode.Uri): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const { exclude } = this.resolve(uri).settings;
+        if (!folder || !exclude) {
+            return false;
+        }
+
+        const relative = toPosix(path.relative(folder.uri.fsPath, uri.fsPath));
+        return exclude.some(glob => globToRegExp(glob).test(relative));
+    }
+
+    /**
+     * Whether the project configuration allows a feature to run on a file
+     */
+    static isFeatureEnabled(featureId: string, uri: vscode.Uri): boolean {
+        const { features } = this.resolve(uri).settings;
+        return !features || features.includes(featureId);
+    }
+
+    /**
+     * Why the project configuration does not let the given features run on a file,
+     * or undefined if they may run
+     */
+    static checkAllowed(uri: vscode.Uri, featureIds: string[]): string | undefined {
+        if (this.isExcluded(uri)) {
+            return `${path.basename(uri.fsPath)} is excluded by the project's Zenco configuration.`;
+        }
+
+        const disabled = featureIds.filter(id => !this.isFeatureEnabled(id, uri));
+        if (disabled.length > 0) {
+            return `${disabled.join(', ')} ${disabled.length === 1 ? 'is' : 'are'} not enabled for ` +
+                `${path.basename(uri.fsPath)} by the project's Zenco configuration.`;
+        }
+
+        return undefined;
+    }
+
+    private static getLayer(directory: string): ConfigLayer | null {
+        let layer = this.layers.get(directory);
+        if (layer === undefined) {
+            layer = loadLayer(directory);
+            this.layers.set(directory, layer);
+        }
+        return layer;
+    }
+}
+
+/**
+ * Read the config of one directory: `.zenco.json` if present, else `[tool.zenco]` in `pyproject.toml`
+ */
+function loadLayer(directory: string): ConfigLayer | null {
+    const jsonFile = path.join(directory, CONFIG_FILE);
+    const tomlFile = path.join(directory, PYPROJECT_FILE);
+
+    try {
+        if (fs.existsSync(jsonFile)) {
+            return { file: vscode.Uri.file(jsonFile), directory, ...readProjectSettings(jsonFile, JSON.parse(fs.readFileSync(jsonFile, 'utf8'))) };
+        }
+        if (fs.existsSync(tomlFile)) {
+            const table = parseTomlTable(fs.readFileSync(tomlFile, 'utf8'), 'tool.zenco');
+            return table ? { file: vscode.Uri.file(tomlFile), directory, ...readProjectSettings(tomlFile, table) } : null;
+        }
+    } catch (error) {
+        const file = fs.existsSync(jsonFile) ? jsonFile : tomlFile;
+        Logger.getInstance().warn(`Ignoring ${file}: ${String(error)}`);
+        return {
+            file: vscode.Uri.file(file),
+            directory,
+            settings: {},
+            errors: [`${file} could not be read and is ignored: ${error instanceof Error ? error.message : String(error)}`]
+        };
+    }
+
+    return null;
+}
+
+/**
+ * The directories from `root` down to `directory`, both included
+ */
+function directoriesBetween(root: string, directory: string): string[] {
+    const relative = path.relative(root, directory);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return [];
+    }
+
+    const directories = [root];
+    let current = root;
+    for (const segment of relative.split(path.sep).filter(Boolean)) {
+        current = path.join(current, segment);
+        directories.push(current);
+    }
+    return directories;
+}
+
+function directoryOf(fsPath: string): string {
+    try {
+        return fs.statSync(fsPath).isDirectory() ? fsPath : path.dirname(fsPath);
+    } catch {
+        return path.dirname(fsPath);
+    }
+}
+
+function toPosix(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+}
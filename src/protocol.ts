@@ -0,0 +1,248 @@
+import * as path from 'path';
+
+/**
+ * Newest `--json` output format this extension understands. Output without a
+ * `schema_version` is from CLIs that predate versioning and counts as 1.
+ */
+export const SUPPORTED_SCHEMA_VERSION = 1;
+
+/**
+ * A single change reported by the CLI (docstring added, constant extracted, ...)
+ */
+export interface ZencoChange {
+    type: string;
+    line: number;
+    description: string;
+}
+
+/**
+ * The CLI's result for one file
+ */
+export interface CliFileResult {
+    file: string;
+    success: boolean;
+    /** Why the file could not be processed, if the CLI says */
+    error?: string;
+    originalContent?: string;
+    modifiedContent?: string;
+    changes: ZencoChange[];
+    /** Counters, e.g. how many functions were documented or tokens used */
+    stats?: Record<string, unknown>;
+}
+
+/**
+ * An error the CLI reports outside of a file result (bad option, missing API key, ...)
+ */
+export interface CliError {
+    message: string;
+    /** File the error is about, if any */
+    file?: string;
+    code?: string;
+}
+
+/**
+ * Everything `zenco run --json` prints
+ */
+export interface CliRunOutput {
+    schemaVersion: number;
+    results: CliFileResult[];
+    errors: CliError[];
+}
+
+/**
+ * The CLI printed something that does not match the result format
+ */
+export class ProtocolError extends Error {
+    constructor(message: string, readonly field: string, readonly schemaVersion?: number) {
+        super(field ? `${field}: ${message}` : message);
+        this.name = 'ProtocolError';
+    }
+}
+
+/**
+ * Read and validate the output of `zenco run --json`. Log lines before and
+ * after the JSON object are skipped.
+ *
+ * @throws ProtocolError if there is no JSON object or it is not a valid result
+ */
+export function parseRunOutput(stdout: string): CliRunOutput {
+    const data = findJson(stdout);
+    if (data === undefined) {
+        throw new ProtocolError('no JSON result in the CLI output', '');
+    }
+    return validateRunOutput(data);
+}
+
+/**
+ * Validate the (already parsed) output of `zenco run --json`
+ *
+ * @throws ProtocolError naming the first invalid field
+ */
+export function validateRunOutput(data: unknown): CliRunOutput {
+    const raw = expectObject(data, 'output');
+    const schemaVersion = raw.schema_version ?? raw.schemaVersion ?? 1;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+        throw new ProtocolError('expected a positive integer', 'schema_version');
+    }
+
+    try {
+        return {
+            schemaVersion,
+            results: expectArray(raw.results ?? [], 'results').map((result, i) => validateFileResult(result, `results[${i}]`)),
+            errors: expectArray(raw.errors ?? [], 'errors').map((error, i) => validateError(error, `errors[${i}]`))
+        };
+    } catch (error) {
+        if (error instanceof ProtocolError && schemaVersion > SUPPORTED_SCHEMA_VERSION) {
+            throw new ProtocolError(
+                `${error.message} (the CLI writes result format ${schemaVersion}, this extension understands up to ${SUPPORTED_SCHEMA_VERSION})`,
+                '',
+                schemaVersion
+            );
+        }
+        throw error;
+    }
+}
+
+/**
+ * Validate the result for one file, as found in `results` or sent by the server
+ *
+ * @throws ProtocolError naming the first invalid field
+ */
+export function validateFileResult(data: unknown, field: string = 'result'): CliFileResult {
+    const raw = expectObject(data, field);
+    const stats = optional(raw.stats, `${field}.stats`, expectObject);
+
+    return {
+        file: expectString(raw.file, `${field}.file`),
+        success: expectBoolean(raw.success, `${field}.success`),
+        error: optional(raw.error, `${field}.error`, expectString),
+        originalContent: optional(raw.original_content, `${field}.original_content`, expectString),
+        modifiedContent: optional(raw.modified_content, `${field}.modified_content`, expectString),
+        changes: expectArray(raw.changes ?? [], `${field}.changes`).map((change, i) => validateChange(change, `${field}.changes[${i}]`)),
+        ...(stats ? { stats } : {})
+    };
+}
+
+/**
+ * The result for a file: the one whose path matches, or the only one there is.
+ * Results for other files are never taken in its place.
+ */
+export function findFileResult(output: CliRunOutput, filePath: string): CliFileResult | undefined {
+    const resolved = path.resolve(filePath);
+    return output.results.find(result => result.file === filePath)
+        ?? output.results.find(result => path.resolve(result.file) === resolved)
+        ?? (output.results.length === 1 && path.basename(output.results[0].file) === path.basename(filePath)
+            ? output.results[0]
+            : undefined);
+}
+
+/**
+ * The errors that concern a file: those about it and those about no file in particular
+ */
+export function errorsForFile(output: CliRunOutput, filePath: string): CliError[] {
+    const resolved = path.resolve(filePath);
+    return output.errors.filter(error => !error.file || path.resolve(error.file) === resolved);
+}
+
+function validateChange(data: unknown, field: string): ZencoChange {
+    const raw = expectObject(data, field);
+    return {
+        type: expectString(raw.type, `${field}.type`),
+        line: expectNumber(raw.line, `${field}.line`),
+        description: expectString(raw.description, `${field}.description`)
+    };
+}
+
+function validateError(data: unknown, field: string): CliError {
+    // Some CLI versions report plain strings
+    if (typeof data === 'string') {
+        return { message: data };
+    }
+    const raw = expectObject(data, field);
+    const file = optional(raw.file, `${field}.file`, expectString);
+    const code = optional(raw.code, `${field}.code`, expectString);
+    return {
+        message: expectString(raw.message, `${field}.message`),
+        ...(file ? { file } : {}),
+        ...(code ? { code } : {})
+    };
+}
+
+/**
+ * Parse the JSON object in CLI output, skipping log lines before and after it.
+ * JSON strings can't contain raw newlines, so the object starts with a `{` that
+ * opens a line and ends with a `}` that closes one; of the candidates that
+ * parse, the longest is taken, so a short JSON log line doesn't hide the result.
+ *
+ * @returns undefined if there is none
+ */
+export function findJson(stdout: string): unknown {
+    const starts = [...stdout.matchAll(/^[ \t]*\{/gm)].map(match => match.index + match[0].length - 1);
+    const ends = [...stdout.matchAll(/\}[ \t]*\r?$/gm)].map(match => match.index + 1).reverse();
+
+    let found: { data: unknown; length: number } | undefined;
+    for (const start of starts) {
+        // Longest first: the first candidate that parses is the one to compare
+        for (const end of ends) {
+            if (end <= start || (found && end - start <= found.length)) {
+                break;
+            }
+            try {
+                found = { data: JSON.parse(stdout.slice(start, end)), length: end - start };
+                break;
+            } catch {
+                // A log line that happens to start or end with a brace
+            }
+        }
+    }
+    return found?.data;
+}
+
+function expectObject(value: unknown, field: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ProtocolError(`expected an object, got ${describe(value)}`, field);
+    }
+    return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new ProtocolError(`expected an array, got ${describe(value)}`, field);
+    }
+    return value;
+}
+
+function expectString(value: unknown, field: string): string {
+    if (typeof value !== 'string') {
+        throw new ProtocolError(`expected a string, got ${describe(value)}`, field);
+    }
+    return value;
+}
+
+function expectNumber(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ProtocolError(`expected a number, got ${describe(value)}`, field);
+    }
+    return value;
+}
+
+function expectBoolean(value: unknown, field: string): boolean {
+    if (typeof value !== 'boolean') {
+        throw new ProtocolError(`expected true or false, got ${describe(value)}`, field);
+    }
+    return value;
+}
+
+/**
+ * Validate a field that may be missing or null
+ */
+function optional<T>(value: unknown, field: string, expect: (value: unknown, field: string) => T): T | undefined {
+    return value === undefined || value === null ? undefined : expect(value, field);
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'an array' : typeof value;
+}
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { ZencoConfig, ZencoProfile, PROVIDERS, ENDPOINT_PROVIDERS } from './config';
+import { ProjectConfig } from './projectConfig';
+import { Logger } from './logger';
+
+/**
+ * Models offered when the provider's model list cannot be fetched
+ */
+const KNOWN_MODELS: Record<string, string[]> = {
+    groq: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'openai/gpt-oss-120b', 'openai/gpt-oss-20b'],
+    openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    anthropic: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-3-5-haiku-latest'],
+    gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+    ollama: ['llama3.1', 'qwen2.5-coder', 'codellama'],
+    custom: []
+};
+
+/**
+ * API of the hosted providers (`zenco.baseUrl` only applies to endpoint providers)
+ */
+const API_URLS: Record<string, string> = {
+    groq: 'https://api.groq.com/openai/v1',
+    openai: 'https://api.openai.com/v1',
+    anthropic: 'https://api.anthropic.com/v1',
+    gemini: 'https://generativelanguage.googleapis.com/v1beta'
+};
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Why a provider's model list could not be fetched, worded for the user
+ */
+export class ProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+/**
+ * Outcome of "Zenco: Test Connection"
+ */
+export interface ConnectionReport {
+    success: boolean;
+    message: string;
+}
+
+/**
+ * Fetch the models the active provider offers. This is a cheap authenticated
+ * request, so it also shows whether the endpoint is reachable and the key accepted.
+ *
+ * @throws ProviderError if the request fails
+ */
+export async function listModels(scope?: vscode.Uri | vscode.TextDocument, token?: vscode.CancellationToken): Promise<string[]> {
+    const config = ZencoConfig.getConfig(scope);
+    const baseUrl = (config.baseUrl || API_URLS[config.provider] || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+        throw new ProviderError(`Set zenco.baseUrl to the endpoint of your ${config.provider} provider.`);
+    }
+
+    const apiKey = await ZencoConfig.getApiKey(config.provider);
+    // Custom headers are meant for a gateway in front of an endpoint provider, not for hosted APIs
+    const headers: Record<string, string> = ENDPOINT_PROVIDERS.includes(config.provider) ? { ...config.customHeaders } : {};
+    if (apiKey) {
+        if (config.provider === 'anthropic') {
+            headers['x-api-key'] = apiKey;
+            headers['anthropic-version'] = '2023-06-01';
+        } else if (config.provider === 'gemini') {
+            headers['x-goog-api-key'] = apiKey;
+        } else {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+    }
+
+    const abort = new AbortController();
+    const timer = setTimeout(() => abort.abort(), REQUEST_TIMEOUT_MS);
+    const cancelListener = token?.onCancellationRequested(() => abort.abort());
+
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl}/models`, { headers, signal: abort.signal });
+    } catch (error) {
+        const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : String(error);
+        throw new ProviderError(
+            abort.signal.aborted
+                ? `${baseUrl} did not answer within ${REQUEST_TIMEOUT_MS / 1000} seconds.`
+                : `Cannot reach ${baseUrl} (${cause}).`
+        );
+    } finally {
+        clearTimeout(timer);
+        cancelListener?.dispose();
+    }
+
+    if (response.status === 401 || response.status === 403) {
+        throw new ProviderError(
+            apiKey
+                ? `${config.provider} rejected the API key (HTTP ${response.status}). Run "Zenco: Set API Key" to replace it.`
+                : `${config.provider} requires an API key (HTTP ${response.status}). Run "Zenco: Set API Key" to add one.`
+        );
+    }
+    if (!response.ok) {
+        throw new ProviderError(`${baseUrl}/models answered HTTP ${response.status} ${response.statusText}.`);
+    }
+
+    const data: unknown = await response.json().catch(() => undefined);
+    return modelNames(data).sort();
+}
+
+/**
+ * The models in a `/models` response. OpenAI-compatible APIs and Anthropic
+ * return `data[].id`, Gemini `models[].name`; anything else counts as no models.
+ */
+function modelNames(data: unknown): string[] {
+    if (!isObject(data)) {
+        return [];
+    }
+    if (Array.isArray(data.data)) {
+        return data.data.filter(isObject).map(model => model.id).filter(isString);
+    }
+    if (Array.isArray(data.models)) {
+        return data.models.filter(isObject).map(model => model.name).filter(isString).map(name => name.replace(/^models\//, ''));
+    }
+    return [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+/**
+ * Let the user pick the model (or switch provider) for the active provider and
+ * store it in the settings
+ */
+export async function selectModel(scope?: vscode.Uri | vscode.TextDocument): Promise<void> {
+    const config = ZencoConfig.getConfig(scope);
+    const switchProvider = '$(arrow-swap) Switch Provider...';
+    const enterModel = '$(edit) Enter Model Name...';
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.title = `Zenco model for ${config.provider}`;
+    quickPick.placeholder = 'Loading models...';
+    quickPick.busy = true;
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    const picked = new Promise<string | undefined>(resolve => {
+        quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]?.label));
+        quickPick.onDidHide(() => {
+            tokenSource.cancel();
+            resolve(undefined);
+        });
+    });
+    quickPick.show();
+
+    let models: string[];
+    let problem: string | undefined;
+    try {
+        models = await listModels(scope, tokenSource.token);
+    } catch (error) {
+        models = KNOWN_MODELS[config.provider] ?? [];
+        problem = error instanceof Error ? error.message : String(error);
+    }
+
+    quickPick.items = [
+        { label: switchProvider, description: `current: ${config.provider}` },
+        { label: enterModel },
+        { label: problem ? 'Known models' : 'Available models', kind: vscode.QuickPickItemKind.Separator },
+        ...models.map(model => ({ label: model, description: model === config.model ? 'current' : undefined }))
+    ];
+    quickPick.placeholder = problem
+        ? `Could not list models (${problem}) - showing known ones`
+        : 'Select the model to use';
+    quickPick.busy = false;
+
+    const selection = await picked;
+    quickPick.dispose();
+    tokenSource.dispose();
+
+    if (selection === switchProvider) {
+        const provider = await vscode.window.showQuickPick(
+            [...new Set([...PROVIDERS, ...ENDPOINT_PROVIDERS])].map(id => ({
+                label: id,
+                description: id === config.provider ? 'current' : undefined
+            })),
+            { placeHolder: 'Select the provider to use' }
+        );
+        if (provider && provider.label !== config.provider) {
+            await updateSetting('provider', provider.label, scope);
+            // The model of the previous provider most likely doesn't exist here
+            await updateSetting('model', undefined, scope);
+            await selectModel(scope);
+        }
+        return;
+    }
+
+    if (selection === enterModel) {
+        const model = await vscode.window.showInputBox({ prompt: `Model name for ${config.provider}`, value: config.model });
+        if (model !== undefined) {
+            await updateSetting('model', model.trim() || undefined, scope);
+        }
+        return;
+    }
+
+    if (selection) {
+        await updateSetting('model', selection, scope);
+    }
+}
+
+/**
+ * Let the user switch between the profiles of `zenco.profiles` (or use none)
+ */
+export async function selectProfile(scope?: vscode.Uri | vscode.TextDocument): Promise<void> {
+    const resource = scope instanceof vscode.Uri ? scope : scope?.uri;
+    const profiles = vscode.workspace.getConfiguration('zenco', resource).get<Record<string, ZencoProfile>>('profiles', {});
+    const active = ZencoConfig.getConfig(scope).profile;
+
+    if (Object.keys(profiles).length === 0) {
+        const choice = await vscode.window.showInformationMessage(
+            'No Zenco profiles defined yet. Add them in the "zenco.profiles" setting.',
+            'Open Settings'
+        );
+        if (choice === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'zenco.profiles');
+        }
+        return;
+    }
+
+    const none = '$(circle-slash) No Profile';
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: none, description: active ? undefined : 'current', detail: 'Use the individual zenco.* settings' },
+            ...Object.entries(profiles).map(([name, profile]) => ({
+                label: name,
+                description: name === active ? 'current' : undefined,
+                detail: describeProfile(profile)
+            }))
+        ],
+        { placeHolder: 'Select the Zenco profile to use' }
+    );
+
+    if (selection) {
+        await updateSetting('activeProfile', selection.label === none ? undefined : selection.label, scope);
+    }
+}
+
+/**
+ * e.g. "groq · llama-3.1-8b-instant · google docstrings · --foo"
+ */
+function describeProfile(profile: ZencoProfile): string {
+    return [
+        profile.provider,
+        profile.model,
+        profile.docstringStyle && `${profile.docstringStyle} docstrings`,
+        profile.strategy && `${profile.strategy} strategy`,
+        ...(profile.extraArgs ?? [])
+    ].filter(Boolean).join(' · ') || 'Same as the individual settings';
+}
+
+/**
+ * Check that the active provider is reachable, accepts the key and offers the
+ * configured model, without running a feature
+ */
+export async function testConnection(
+    scope?: vscode.Uri | vscode.TextDocument,
+    token?: vscode.CancellationToken
+): Promise<ConnectionReport> {
+    const config = ZencoConfig.getConfig(scope);
+
+    if (!ENDPOINT_PROVIDERS.includes(config.provider) && !(await ZencoConfig.getApiKey(config.provider))) {
+        return { success: false, message: `No API key configured for ${config.provider}. Run "Zenco: Set API Key" to add one.` };
+    }
+
+    let models: string[];
+    try {
+        models = await listModels(scope, token);
+    } catch (error) {
+        Logger.getInstance().warn('Connection test failed: ' + String(error));
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (!config.model) {
+        return { success: true, message: `Connected to ${config.provider} (${models.length} models available; using the CLI's default model).` };
+    }
+    if (models.length > 0 && !models.includes(config.model)) {
+        return {
+            success: false,
+            message: `Connected to ${config.provider}, but it does not offer the model "${config.model}". Run "Zenco: Select Model" to pick one.`
+        };
+    }
+    return { success: true, message: `Connected to ${config.provider}; model "${config.model}" is available.` };
+}
+
+/**
+ * Write a setting where it takes effect: the most specific place it is already
+ * set (a language override, the folder or the workspace), else the user settings
+ */
+async function updateSetting(
+    key: 'provider' | 'model' | 'activeProfile',
+    value: string | undefined,
+    scope?: vscode.Uri | vscode.TextDocument
+): Promise<void> {
+    const resource = scope instanceof vscode.Uri ? scope : scope?.uri;
+    const languageId = scope instanceof vscode.Uri ? undefined : scope?.languageId;
+    const config = vscode.workspace.getConfiguration('zenco', languageId ? { uri: resource, languageId } : resource);
+    const inspected = config.inspect(key);
+
+    const places: [unknown, vscode.ConfigurationTarget, boolean][] = [
+        [inspected?.workspaceFolderLanguageValue, vscode.ConfigurationTarget.WorkspaceFolder, true],
+        [inspected?.workspaceLanguageValue, vscode.ConfigurationTarget.Workspace, true],
+        [inspected?.globalLanguageValue, vscode.ConfigurationTarget.Global, true],
+        [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder, false],
+        [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace, false]
+    ];
+    const [, target, overrideInLanguage] = places.find(([current]) => current !== undefined)
+        ?? [undefined, vscode.ConfigurationTarget.Global, false];
+
+    await config.update(key, value, target, overrideInLanguage);
+
+    if (key === 'activeProfile') {
+        return;
+    }
+    const profile = ZencoConfig.getConfig(scope).profile;
+    if (resource && ProjectConfig.resolve(resource).settings[key] !== undefined) {
+        vscode.window.showWarningMessage(
+            `The project's Zenco configuration sets "${key}" for this file, so the new setting does not apply to it.`
+        );
+    } else if (profile && config.get<Record<string, ZencoProfile>>('profiles', {})[profile]?.[key] !== undefined) {
+        vscode.window.showWarningMessage(
+            `The active profile "${profile}" sets "${key}", so the new setting does not apply until you switch profile.`
+        );
+    }
+}
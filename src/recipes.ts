@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { ZencoConfig } from './config';
+import { ZencoFeature, getFeature, FEATURES } from './features';
+import { ZencoResult, ZencoRunOptions, runZencoPipeline } from './zencoRunner';
+import { isFeatureSupported } from './languages';
+
+/**
+ * A named sequence of features from the `zenco.recipes` setting
+ */
+export interface ZencoRecipe {
+    name: string;
+    steps: ZencoFeature[];
+}
+
+/**
+ * Read the recipes from settings. Recipes referring to unknown features are
+ * left out and reported in `errors`.
+ */
+export function getRecipes(): { recipes: ZencoRecipe[]; errors: string[] } {
+    const recipes: ZencoRecipe[] = [];
+    const errors: string[] = [];
+
+    for (const [name, stepIds] of Object.entries(ZencoConfig.getConfig().recipes)) {
+        if (!Array.isArray(stepIds) || stepIds.length === 0) {
+            errors.push(`Recipe "${name}" has no steps.`);
+            continue;
+        }
+
+        const unknown = stepIds.filter(id => !getFeature(id));
+        if (unknown.length > 0) {
+            errors.push(
+                `Recipe "${name}" uses unknown feature(s) ${unknown.join(', ')}. ` +
+                `Valid features: ${FEATURES.map(f => f.id).join(', ')}.`
+            );
+            continue;
+        }
+
+        recipes.push({ name, steps: stepIds.map(id => getFeature(id)!) });
+    }
+
+    return { recipes, errors };
+}
+
+/**
+ * Describe a recipe's steps, e.g. "Remove Dead Code → Add Type Hints"
+ */
+export function describeRecipe(recipe: ZencoRecipe): string {
+    return recipe.steps.map(step => step.name).join(' → ');
+}
+
+/**
+ * The steps of a recipe that apply to a language
+ */
+export function recipeStepsFor(recipe: ZencoRecipe, languageId: string): ZencoFeature[] {
+    return recipe.steps.filter(step => isFeatureSupported(step.id, languageId));
+}
+
+/**
+ * Run all steps of a recipe as one pipeline: each step works on the previous step's output.
+ * Steps that don't apply to the document's language are skipped. A profile pinned to the
+ * recipe applies to all steps; otherwise each step uses the profile pinned to its feature.
+ */
+export async function runRecipe(
+    document: vscode.TextDocument,
+    recipe: ZencoRecipe,
+    runOptions: ZencoRunOptions = {}
+): Promise<ZencoResult> {
+    const steps = recipeStepsFor(recipe, document.languageId);
+    if (steps.length === 0) {
+        return {
+            success: false,
+            status: 'failed',
+            error: `None of the steps of recipe "${recipe.name}" apply to ${document.languageId} files.`
+        };
+    }
+
+    const profile = runOptions.profile ?? ZencoConfig.getPinnedProfile(recipe.name, document);
+    return runZencoPipeline(
+        document,
+        steps.map(step => ({
+            name: step.name,
+            options: step.options,
+            profile: profile ?? ZencoConfig.getPinnedProfile(step.id, document)
+        })),
+        runOptions
+    );
+}
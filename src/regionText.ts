@@ -0,0 +1,105 @@
+/**
+ * A position in a document, 0-based like `vscode.Position`
+ */
+export interface TextPosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * Whole lines of a document, 0-based with an inclusive end
+ */
+export interface LineSpan {
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * The lines of a document a run on part of it works on, as sent to the CLI
+ */
+export interface TextRegion extends LineSpan {
+    /** The lines with their shared indentation removed, always joined with '\n' */
+    snippet: string;
+    /** The indentation removed from every line */
+    indent: string;
+}
+
+/**
+ * The whole lines a selection covers. A selection that ends at the start of a
+ * line doesn't include that line; an empty selection covers none.
+ */
+export function selectedLines(start: TextPosition, end: TextPosition): LineSpan | undefined {
+    if (start.line === end.line && start.character === end.character) {
+        return undefined;
+    }
+    const endLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+    return { startLine: start.line, endLine };
+}
+
+/**
+ * Cut the lines of a span out of a document's text and remove their shared indentation
+ */
+export function cutRegion(text: string, span: LineSpan): TextRegion {
+    const lines = text.split('\n').slice(span.startLine, span.endLine + 1).map(line => line.replace(/\r$/, ''));
+    const { text: snippet, indent } = dedent(lines.join('\n'));
+    return { ...span, snippet, indent };
+}
+
+/**
+ * Put the CLI's version of a region back into the document's text, with the
+ * region's indentation and the document's line endings
+ */
+export function spliceRegion(text: string, region: TextRegion, modifiedSnippet: string): string {
+    const lines = text.split('\n');
+    const replaced = lines.slice(region.startLine, region.endLine + 1);
+    const crlf = replaced.some(line => line.endsWith('\r'));
+    // The last line of the document has no line ending of its own
+    const lastEnding = replaced[replaced.length - 1]?.endsWith('\r') ? '\r' : '';
+
+    const modified = reindent(modifiedSnippet.replace(/\r\n/g, '\n').replace(/\n$/, ''), region.indent).split('\n');
+    const restored = modified.map((line, i) => line + (i < modified.length - 1 ? (crlf ? '\r' : '') : lastEnding));
+
+    return [...lines.slice(0, region.startLine), ...restored, ...lines.slice(region.endLine + 1)].join('\n');
+}
+
+/**
+ * Remove the indentation shared by every non-blank line
+ */
+export function dedent(text: string): { text: string; indent: string } {
+    const lines = text.split('\n');
+    let indent: string | null = null;
+
+    for (const line of lines) {
+        if (!line.trim()) {
+            continue;
+        }
+        const lineIndent = line.match(/^[ \t]*/)![0];
+        if (indent === null || !lineIndent.startsWith(indent)) {
+            indent = indent === null ? lineIndent : commonPrefix(indent, lineIndent);
+        }
+    }
+
+    const shared = indent ?? '';
+    return {
+        text: lines.map(line => line.startsWith(shared) ? line.slice(shared.length) : line.trimStart()).join('\n'),
+        indent: shared
+    };
+}
+
+/**
+ * Indent every non-blank line, undoing `dedent`
+ */
+export function reindent(text: string, indent: string): string {
+    if (!indent) {
+        return text;
+    }
+    return text.split('\n').map(line => line.trim() ? indent + line : line).join('\n');
+}
+
+function commonPrefix(a: string, b: string): string {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) {
+        i++;
+    }
+    return a.slice(0, i);
+}
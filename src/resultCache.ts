@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ZencoResult } from './zencoRunner';
+import { CacheEntry, keysToEvict } from './cachePolicy';
+import { Logger } from './logger';
+
+export { cacheKey } from './cachePolicy';
+
+/**
+ * Successful results, stored one file per key in the extension's global storage,
+ * so re-running a feature on unchanged content returns the same answer instantly.
+ * The least recently used results are dropped beyond `zenco.cacheSizeMB`.
+ */
+export class ZencoResultCache {
+    private static instance: ZencoResultCache | undefined;
+
+    private readonly directory: vscode.Uri;
+    // The results themselves stay on disk
+    private entries = new Map<string, CacheEntry>();
+    private totalSize = 0;
+
+    private constructor(storageUri: vscode.Uri) {
+        this.directory = vscode.Uri.joinPath(storageUri, 'result-cache');
+    }
+
+    /**
+     * Create the cache and index the results saved by earlier sessions
+     */
+    static async initialize(context: vscode.ExtensionContext): Promise<ZencoResultCache> {
+        const cache = new ZencoResultCache(context.globalStorageUri);
+        ZencoResultCache.instance = cache;
+
+        try {
+            for (const [name, type] of await vscode.workspace.fs.readDirectory(cache.directory)) {
+                if (type !== vscode.FileType.File || path.extname(name) !== '.json') {
+                    continue;
+                }
+                const stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(cache.directory, name));
+                cache.entries.set(path.basename(name, '.json'), { size: stat.size, lastUsed: stat.mtime });
+                cache.totalSize += stat.size;
+            }
+        } catch {
+            // No cache yet
+        }
+
+        return cache;
+    }
+
+    static getInstance(): ZencoResultCache | undefined {
+        return ZencoResultCache.instance;
+    }
+
+    /**
+     * The cached result for a key, marked as `cached`
+     */
+    async get(key: string): Promise<ZencoResult | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry || this.maxSize === 0) {
+            return undefined;
+        }
+
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileOf(key));
+            entry.lastUsed = Date.now();
+            return { ...JSON.parse(Buffer.from(data).toString('utf8')), cached: true };
+        } catch (error) {
+            Logger.getInstance().warn(`Dropping unreadable cached result ${key}: ${String(error)}`);
+            this.forget(key);
+            return undefined;
+        }
+    }
+
+    /**
+     * Store a successful result, evicting the least recently used ones if over the size limit
+     */
+    async set(key: string, result: ZencoResult): Promise<void> {
+        if (!result.success) {
+            return;
+        }
+
+        const { cached, ...stored } = result;
+        const content = Buffer.from(JSON.stringify(stored), 'utf8');
+        const maxSize = this.maxSize;
+        if (content.length > maxSize) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.directory);
+            await vscode.workspace.fs.writeFile(this.fileOf(key), content);
+        } catch (error) {
+            Logger.getInstance().error('Failed to cache Zenco result: ' + String(error));
+            return;
+        }
+
+        this.forget(key, false);
+        this.entries.set(key, { size: content.length, lastUsed: Date.now() });
+        this.totalSize += content.length;
+
+        for (const oldKey of keysToEvict(this.entries, maxSize)) {
+            this.forget(oldKey);
+        }
+    }
+
+    /**
+     * Delete every cached result
+     *
+     * @returns how many results were deleted and how many bytes they took
+     */
+    async clear(): Promise<{ count: number; size: number }> {
+        const cleared = { count: this.entries.size, size: this.totalSize };
+        this.entries.clear();
+        this.totalSize = 0;
+
+        try {
+            await vscode.workspace.fs.delete(this.directory, { recursive: true, useTrash: false });
+        } catch {
+            // Nothing was cached
+        }
+        return cleared;
+    }
+
+    private get maxSize(): number {
+        return Math.max(vscode.workspace.getConfiguration('zenco').get<number>('cacheSizeMB', 50), 0) * 1024 * 1024;
+    }
+
+    private fileOf(key: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.directory, `${key}.json`);
+    }
+
+    private forget(key: string, deleteFile: boolean = true): void {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.totalSize -= entry.size;
+        if (deleteFile) {
+            Promise.resolve(vscode.workspace.fs.delete(this.fileOf(key))).catch(() => undefined);
+        }
+    }
+}
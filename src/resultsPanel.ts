@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ZencoChange, ZencoResult } from './zencoRunner';
+import { DiffViewer } from './diffViewer';
+
+/**
+ * One run shown in the results panel
+ */
+interface ResultEntry {
+    id: string;
+    featureName: string;
+    uri: vscode.Uri;
+    time: Date;
+    result: ZencoResult;
+}
+
+/**
+ * Messages the webview sends when a change is clicked
+ */
+interface RevealMessage {
+    type: 'reveal';
+    id: string;
+    line: number;
+    target: 'editor' | 'diff';
+}
+
+interface ClearMessage {
+    type: 'clear';
+}
+
+// Older runs are dropped beyond this, to keep the page small
+const MAX_RESULTS = 50;
+
+/**
+ * The "Zenco Results" webview: every run of the session with its stats and
+ * changes grouped by type. Clicking a change jumps to its line in the editor
+ * or in the run's diff.
+ */
+export class ZencoResultsPanel implements vscode.Disposable {
+    private static instance: ZencoResultsPanel | undefined;
+
+    private panel: vscode.WebviewPanel | undefined;
+    private entries: ResultEntry[] = [];
+
+    private constructor(private readonly diffViewer: DiffViewer) {}
+
+    static initialize(diffViewer: DiffViewer): ZencoResultsPanel {
+        ZencoResultsPanel.instance = new ZencoResultsPanel(diffViewer);
+        return ZencoResultsPanel.instance;
+    }
+
+    static getInstance(): ZencoResultsPanel | undefined {
+        return ZencoResultsPanel.instance;
+    }
+
+    /**
+     * Record a run, newest first. The panel is refreshed if it is open.
+     *
+     * @param reveal - Also open the panel (next to the editor, without taking focus)
+     */
+    add(featureName: string, uri: vscode.Uri, result: ZencoResult, reveal: boolean = false): void {
+        this.entries.unshift({ id: crypto.randomUUID(), featureName, uri, time: new Date(), result });
+        this.entries.length = Math.min(this.entries.length, MAX_RESULTS);
+
+        if (reveal) {
+            this.show(true);
+        } else {
+            this.render();
+        }
+    }
+
+    show(preserveFocus: boolean = false): void {
+        if (this.panel) {
+            this.panel.reveal(undefined, preserveFocus);
+            this.render();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'zencoResults',
+            'Zenco Results',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus },
+            { enableScripts: true, localResourceRoots: [] }
+        );
+        this.panel.onDidDispose(() => (this.panel = undefined));
+        this.panel.webview.onDidReceiveMessage((message: RevealMessage | ClearMessage) => this.onMessage(message));
+        this.render();
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.render();
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private async onMessage(message: RevealMessage | ClearMessage): Promise<void> {
+        if (message.type === 'clear') {
+            this.clear();
+            return;
+        }
+
+        const entry = this.entries.find(e => e.id === message.id);
+        if (!entry) {
+            return;
+        }
+
+        const line = Math.max(message.line - 1, 0);
+        const selection = new vscode.Range(line, 0, line, 0);
+
+        if (message.target === 'diff' && entry.result.originalContent !== undefined && entry.result.modifiedContent !== undefined) {
+            await this.diffViewer.showDiff(
+                entry.result.originalContent,
+                entry.result.modifiedContent,
+                path.basename(entry.uri.path),
+                `results/${entry.id}`
+            );
+            // The diff editor focuses its modified side, which is where the CLI's line numbers point
+            const editor = vscode.window.activeTextEditor;
+            if (editor) {
+                editor.selection = new vscode.Selection(selection.start, selection.start);
+                editor.revealRange(selection, vscode.TextEditorRevealType.InCenter);
+            }
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(entry.uri);
+            await vscode.window.showTextDocument(document, { selection, viewColumn: vscode.ViewColumn.One });
+        } catch {
+            vscode.window.showErrorMessage(`${path.basename(entry.uri.path)} is no longer available.`);
+        }
+    }
+
+    private render(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        const nonce = crypto.randomBytes(16).toString('base64');
+        this.panel.webview.html = renderPage(this.entries, nonce, this.panel.webview.cspSource);
+    }
+}
+
+function renderPage(entries: ResultEntry[], nonce: string, cspSource: string): string {
+    const body = entries.length === 0
+        ? '<p class="empty">No Zenco runs yet in this session. Results appear here as you run features.</p>'
+        : entries.map((entry, index) => renderEntry(entry, index === 0)).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Zenco Results</title>
+<style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 12px 12px; }
+    header { display: flex; justify-content: space-between; align-items: center; }
+    details { border-bottom: 1px solid var(--vscode-panel-border); padding: 6px 0; }
+    summary { cursor: pointer; font-weight: 600; }
+    summary .meta { font-weight: normal; color: var(--vscode-descriptionForeground); margin-left: 6px; }
+    .status-failed, .status-timedOut { color: var(--vscode-errorForeground); }
+    .counters { display: flex; flex-wrap: wrap; gap: 6px; margin: 8px 0; }
+    .counter { background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); border-radius: 4px; padding: 2px 8px; }
+    .counter b { margin-right: 4px; }
+    h4 { margin: 10px 0 4px; text-transform: uppercase; font-size: 0.85em; color: var(--vscode-descriptionForeground); }
+    ul { list-style: none; margin: 0; padding: 0; }
+    li { padding: 2px 0; }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    .diff-link { margin-left: 8px; font-size: 0.9em; }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+    .empty { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<header>
+    <h2>Zenco Results</h2>
+    ${entries.length > 0 ? '<button data-action="clear">Clear</button>' : ''}
+</header>
+${body}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.addEventListener('click', event => {
+        const target = event.target.closest('[data-action]');
+        if (!target) {
+            return;
+        }
+        event.preventDefault();
+        if (target.dataset.action === 'clear') {
+            vscode.postMessage({ type: 'clear' });
+        } else {
+            vscode.postMessage({ type: 'reveal', id: target.dataset.id, line: Number(target.dataset.line), target: target.dataset.action });
+        }
+    });
+</script>
+</body>
+</html>`;
+}
+
+function renderEntry(entry: ResultEntry, open: boolean): string {
+    const { result } = entry;
+    const file = vscode.workspace.asRelativePath(entry.uri);
+    const changes = result.changes ?? [];
+    const hasDiff = result.originalContent !== undefined && result.modifiedContent !== undefined;
+
+    const status = result.success
+        ? `${changes.length} change(s)`
+        : `<span class="status-${result.status}">${escapeHtml(result.status === 'cancelled' ? 'cancelled' : result.error ?? result.status)}</span>`;
+
+    const counters = Object.entries(flattenStats(result.stats))
+        .map(([name, value]) => `<span class="counter"><b>${escapeHtml(String(value))}</b>${escapeHtml(humanize(name))}</span>`)
+        .join('');
+
+    const steps = result.steps && result.steps.length > 0
+        ? `<div class="counters">${result.steps.map((step, i) =>
+            `<span class="counter"><b>${i + 1}.</b>${escapeHtml(step.name)}: ${step.changes.length}</span>`).join('')}</div>`
+        : '';
+
+    const groups = [...groupByType(changes)].map(([type, items]) => `
+        <h4>${escapeHtml(humanize(type))} (${items.length})</h4>
+        <ul>${items.map(change => `
+            <li>
+                <a data-action="editor" data-id="${entry.id}" data-line="${Number(change.line)}">Line ${Number(change.line)}</a>: ${escapeHtml(change.description)}
+                ${hasDiff ? `<a class="diff-link" data-action="diff" data-id="${entry.id}" data-line="${Number(change.line)}">diff</a>` : ''}
+            </li>`).join('')}
+        </ul>`).join('');
+
+    return `<details${open ? ' open' : ''}>
+    <summary>${escapeHtml(entry.featureName)}<span class="meta">${escapeHtml(file)} · ${entry.time.toLocaleTimeString()} · ${status}${result.cached ? ' · cached' : ''}</span></summary>
+    ${counters ? `<div class="counters">${counters}</div>` : ''}
+    ${steps}
+    ${groups}
+</details>`;
+}
+
+function groupByType(changes: ZencoChange[]): Map<string, ZencoChange[]> {
+    const groups = new Map<string, ZencoChange[]>();
+    for (const change of [...changes].sort((a, b) => a.line - b.line)) {
+        const type = change.type || 'other';
+        groups.set(type, [...(groups.get(type) ?? []), change]);
+    }
+    return groups;
+}
+
+/**
+ * Stats as flat `name: value` pairs; nested objects become `parent.child`
+ */
+function flattenStats(stats: Record<string, unknown> | undefined, prefix: string = ''): Record<string, string | number | boolean> {
+    const flat: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(stats ?? {})) {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+            Object.assign(flat, flattenStats(value as Record<string, unknown>, name));
+        } else if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+            flat[name] = value;
+        }
+    }
+    return flat;
+}
+
+/**
+ * `dead_code_removed` -> `dead code removed`
+ */
+function humanize(name: string): string {
+    return name.replace(/[_.-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { selectedLines } from './regionText';
+
+/**
+ * Symbol kinds that make sense to process on their own
+ */
+const SCOPE_SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Struct
+]);
+
+/**
+ * Range covering the whole lines of the current selection, or undefined if nothing is selected
+ */
+export function getSelectionScope(editor: vscode.TextEditor): vscode.Range | undefined {
+    const lines = selectedLines(editor.selection.start, editor.selection.end);
+    if (!lines) {
+        return undefined;
+    }
+    return new vscode.Range(lines.startLine, 0, lines.endLine, editor.document.lineAt(lines.endLine).text.length);
+}
+
+/**
+ * Find the innermost function or class around the cursor using the document symbol provider
+ */
+export async function getSymbolScope(
+    editor: vscode.TextEditor
+): Promise<{ name: string; range: vscode.Range } | undefined> {
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider',
+        editor.document.uri
+    );
+
+    if (!symbols || symbols.length === 0) {
+        return undefined;
+    }
+
+    const position = editor.selection.active;
+    let best: { name: string; range: vscode.Range } | undefined;
+
+    const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+        const range = 'location' in symbol ? symbol.location.range : symbol.range;
+        if (!range.contains(position)) {
+            return;
+        }
+
+        // Keep the innermost match (providers may return a flat list instead of a tree)
+        if (SCOPE_SYMBOL_KINDS.has(symbol.kind) && (!best || best.range.contains(range))) {
+            best = { name: symbol.name, range };
+        }
+
+        if ('children' in symbol) {
+            symbol.children.forEach(visit);
+        }
+    };
+
+    symbols.forEach(visit);
+
+    if (!best) {
+        return undefined;
+    }
+
+    const endLine = best.range.end.line;
+    return {
+        name: best.name,
+        range: new vscode.Range(best.range.start.line, 0, endLine, editor.document.lineAt(endLine).text.length)
+    };
+}
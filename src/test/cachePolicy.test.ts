@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { cacheKey, keysToEvict } from '../cachePolicy';
+
+suite('Cache Policy Test Suite', () => {
+	const args = ['--docstrings', '--provider', 'groq', '--strategy', 'llm'];
+
+	test('the same run has the same key', () => {
+		assert.strictEqual(cacheKey('x = 1\n', '/a/app.py', args, '0.2.0'), cacheKey('x = 1\n', '/b/app.py', [...args], '0.2.0'));
+		assert.match(cacheKey('x = 1\n', 'app.py', args, undefined), /^[0-9a-f]{64}$/);
+	});
+
+	test('anything that changes the answer changes the key', () => {
+		const key = cacheKey('x = 1\n', 'app.py', args, '0.2.0');
+		assert.notStrictEqual(cacheKey('x = 2\n', 'app.py', args, '0.2.0'), key);
+		assert.notStrictEqual(cacheKey('x = 1\n', 'app.js', args, '0.2.0'), key);
+		assert.notStrictEqual(cacheKey('x = 1\n', 'app.py', [...args, '--model', 'gpt-4o'], '0.2.0'), key);
+		assert.notStrictEqual(cacheKey('x = 1\n', 'app.py', args, '0.3.0'), key);
+	});
+
+	test('arguments are not run together', () => {
+		assert.notStrictEqual(cacheKey('a', 'app.py', ['--x', 'y'], '1'), cacheKey('a', 'app.py', ['--x y'], '1'));
+	});
+
+	test('least recently used entries are evicted until within the limit', () => {
+		const entries = new Map([
+			['new', { size: 40, lastUsed: 300 }],
+			['old', { size: 30, lastUsed: 100 }],
+			['mid', { size: 50, lastUsed: 200 }]
+		]);
+		assert.deepStrictEqual(keysToEvict(entries, 100), ['old']);
+		assert.deepStrictEqual(keysToEvict(entries, 50), ['old', 'mid']);
+		assert.deepStrictEqual(keysToEvict(entries, 120), []);
+		assert.deepStrictEqual(keysToEvict(entries, 0), ['old', 'mid', 'new']);
+	});
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import {
+	computeHunks,
+	applyHunks,
+	mergeHunks,
+	computeContextHunks,
+	revertHunks,
+	changedLineRanges,
+	mapLineRanges,
+	followLine,
+	hunkTouchesRanges
+} from '../changeHunks';
+
+suite('Change Hunks Test Suite', () => {
+	const original = ['import os', 'import sys', '', 'def area(r):', '    return 3.14 * r * r', ''].join('\n');
+	const modified = ['import sys', '', 'PI = 3.14', '', 'def area(r):', '    return PI * r * r', ''].join('\n');
+
+	test('applying every hunk reproduces the modified content', () => {
+		const hunks = computeHunks(original, modified);
+		assert.strictEqual(applyHunks(original, hunks), modified);
+	});
+
+	test('applying no hunks keeps the original content', () => {
+		assert.strictEqual(applyHunks(original, []), original);
+	});
+
+	test('rejected hunks keep their original lines', () => {
+		const hunks = computeHunks(original, modified);
+		assert.strictEqual(hunks.length, 3);
+
+		// Reject the removed import, accept the rest
+		const result = applyHunks(original, hunks.slice(1));
+		assert.ok(result.startsWith('import os\nimport sys\n'));
+		assert.ok(result.includes('return PI * r * r'));
+	});
+
+	test('identical content has no hunks', () => {
+		assert.deepStrictEqual(computeHunks(original, original), []);
+	});
+
+	test('merges changes onto edits made elsewhere in the file', () => {
+		const current = original.replace('import sys', 'import sys\nimport json');
+		const merged = mergeHunks(original, current, computeHunks(original, modified));
+
+		assert.deepStrictEqual(merged.conflicts, []);
+		assert.strictEqual(merged.text, modified.replace('import sys', 'import sys\nimport json'));
+	});
+
+	test('reports changes to lines edited since the run as conflicts', () => {
+		const current = original.replace('3.14 * r * r', '3.14159 * r * r');
+		const merged = mergeHunks(original, current, computeHunks(original, modified));
+
+		assert.strictEqual(merged.conflicts.length, 1);
+		assert.ok(merged.text.includes('3.14159 * r * r'));
+		assert.ok(merged.text.includes('PI = 3.14'));
+	});
+
+	test('reverts applied changes after unrelated edits', () => {
+		const hunks = computeContextHunks(original, modified);
+		const edited = '# header\n' + modified + 'print(area(2))\n';
+		const reverted = revertHunks(edited, hunks);
+
+		assert.deepStrictEqual(reverted.conflicts, []);
+		assert.strictEqual(reverted.text, '# header\n' + original + 'print(area(2))\n');
+	});
+
+	test('reports changes that were edited again as revert conflicts', () => {
+		const hunks = computeContextHunks(original, modified);
+		const edited = modified.replace('PI = 3.14', 'PI = 3.14159');
+		const reverted = revertHunks(edited, hunks);
+
+		assert.ok(reverted.conflicts.length > 0);
+		assert.ok(reverted.text.includes('PI = 3.14159'));
+	});
+
+	test('keeps only the changes that touch the given line ranges', () => {
+		const authored = original.replace('3.14 * r * r', '3.14 * r ** 2');
+		const ranges = changedLineRanges(original, authored);
+		assert.deepStrictEqual(ranges, [{ start: 4, end: 5 }]);
+
+		const kept = computeHunks(original, modified).filter(hunk => hunkTouchesRanges(hunk, ranges));
+		assert.strictEqual(applyHunks(original, kept), original.replace('3.14 * r * r', 'PI * r * r'));
+	});
+
+	test('maps line ranges onto a later version of the text', () => {
+		const later = 'import re\n' + original.replace('def area(r):', 'def area(radius):');
+		const hunks = computeHunks(original, later);
+
+		// Line 2 moves down by one; line 3 was rewritten and has no counterpart
+		assert.deepStrictEqual(mapLineRanges([{ start: 2, end: 5 }], hunks), [{ start: 3, end: 4 }, { start: 5, end: 6 }]);
+	});
+
+	test('follows a line through later edits onto the final text', () => {
+		// A first step's result, then a second step that adds an import and renames the parameter
+		const later = 'import re\n' + modified.replace('def area(r):', 'def area(radius):');
+		const hunks = computeHunks(modified, later);
+
+		// "PI = 3.14" moves down by one; the rewritten def line points at its replacement
+		assert.strictEqual(followLine(2, hunks), 3);
+		assert.strictEqual(followLine(4, hunks), 5);
+		assert.strictEqual(later.split('\n')[followLine(4, hunks)], 'def area(radius):');
+		assert.strictEqual(followLine(2, []), 2);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { cliArgsFor, providerEnvFor, resolveBaseUrl } from '../cliArgs';
+
+suite('CLI Args Test Suite', () => {
+	const settings = {
+		provider: 'groq',
+		model: 'llama-3.3-70b-versatile',
+		baseUrl: '',
+		docstringStyle: 'google',
+		strategy: 'llm',
+		extraArgs: ['--verbose']
+	};
+
+	test('settings become flags after the feature flags', () => {
+		assert.deepStrictEqual(cliArgsFor(['--docstrings'], settings), [
+			'--docstrings',
+			'--provider', 'groq',
+			'--model', 'llama-3.3-70b-versatile',
+			'--style', 'google',
+			'--strategy', 'llm',
+			'--verbose'
+		]);
+	});
+
+	test('empty model and style are left out', () => {
+		assert.deepStrictEqual(
+			cliArgsFor(['--refactor'], { ...settings, model: '', docstringStyle: undefined, extraArgs: [] }),
+			['--refactor', '--provider', 'groq', '--strategy', 'llm']
+		);
+	});
+
+	test('the endpoint is only passed for endpoint providers', () => {
+		const hosted = cliArgsFor([], { ...settings, baseUrl: 'https://attacker.example/v1' });
+		assert.ok(!hosted.includes('--base-url'));
+
+		const custom = cliArgsFor([], { ...settings, provider: 'custom', baseUrl: 'http://localhost:1234/v1' });
+		assert.deepStrictEqual(custom.slice(custom.indexOf('--base-url'), custom.indexOf('--base-url') + 2), ['--base-url', 'http://localhost:1234/v1']);
+	});
+
+	test('ollama has a default endpoint, custom and hosted providers do not', () => {
+		assert.strictEqual(resolveBaseUrl('ollama', ''), 'http://localhost:11434/v1');
+		assert.strictEqual(resolveBaseUrl('ollama', 'http://gpu-box:11434/v1'), 'http://gpu-box:11434/v1');
+		assert.strictEqual(resolveBaseUrl('custom', ''), '');
+		assert.strictEqual(resolveBaseUrl('openai', 'http://localhost:1234/v1'), '');
+	});
+
+	test('the API key goes into the provider\'s variable', () => {
+		assert.deepStrictEqual(providerEnvFor('openai', 'sk-1', {}), { OPENAI_API_KEY: 'sk-1' });
+		assert.deepStrictEqual(providerEnvFor('custom', 'key', {}), { ZENCO_API_KEY: 'key' });
+		assert.deepStrictEqual(providerEnvFor('ollama', undefined, {}), {});
+		assert.deepStrictEqual(providerEnvFor('groq', undefined, {}), {});
+	});
+
+	test('custom headers are only sent to endpoint providers', () => {
+		const headers = { 'X-Team': 'platform' };
+		assert.deepStrictEqual(providerEnvFor('ollama', undefined, headers), { ZENCO_EXTRA_HEADERS: '{"X-Team":"platform"}' });
+		assert.deepStrictEqual(providerEnvFor('anthropic', 'key', headers), { ANTHROPIC_API_KEY: 'key' });
+	});
+});
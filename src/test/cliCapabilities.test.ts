@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseCapabilities, capabilitiesFromHelp, missingOptions } from '../cliCapabilities';
+
+suite('CLI Capabilities Test Suite', () => {
+	test('parses the capabilities the CLI reports', () => {
+		const output = 'Zenco AI v0.3.0\n{"version": "0.3.0", "schema_version": 2, "options": ["--refactor", "--json", 7]}\n';
+		assert.deepStrictEqual(parseCapabilities(output), {
+			version: '0.3.0',
+			schemaVersion: 2,
+			options: ['--refactor', '--json'],
+			reported: true
+		});
+	});
+
+	test('rejects output that is not a capabilities object', () => {
+		assert.strictEqual(parseCapabilities('Error: No such command "capabilities".'), undefined);
+		assert.strictEqual(parseCapabilities('{"version": "0.3.0"}'), undefined);
+	});
+
+	test('reads the options listed in --help', () => {
+		const help = [
+			'usage: zenco run [-h] [--refactor] [--refactor-strict]',
+			'                 [--docstrings] [--json] path',
+			'',
+			'options:',
+			'  -h, --help         show this help message and exit',
+			'  --provider PROVIDER  LLM provider'
+		].join('\n');
+		assert.deepStrictEqual(capabilitiesFromHelp('0.1.0', help), {
+			version: '0.1.0',
+			schemaVersion: 1,
+			options: ['--docstrings', '--help', '--json', '--provider', '--refactor', '--refactor-strict'],
+			reported: false
+		});
+	});
+
+	test('reports the options a run needs that the CLI lacks', () => {
+		const capabilities = { version: '0.1.0', schemaVersion: 1, options: ['--docstrings', '--json', '--style'], reported: false };
+		assert.deepStrictEqual(missingOptions(capabilities, ['--docstrings', '--overwrite-existing', '--style', 'google']), ['--overwrite-existing']);
+	});
+
+	test('nothing is missing when the options are unknown', () => {
+		const capabilities = { version: 'unknown', schemaVersion: 1, options: [], reported: false };
+		assert.deepStrictEqual(missingOptions(capabilities, ['--refactor-strict']), []);
+	});
+});
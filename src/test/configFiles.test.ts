@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { parseTomlTable, toCamelCase, globToRegExp, readProjectSettings, mergeProjectSettings } from '../configFiles';
+
+suite('Config Files Test Suite', () => {
+	const pyproject = [
+		'[project]',
+		'name = "demo"',
+		'',
+		'[tool.zenco]',
+		'provider = "openai"  # team default',
+		"model = 'gpt-4o'",
+		'docstring_style = "numpy"',
+		'features = [',
+		'    "addDocstrings",',
+		'    "addTypeHints",  # no refactoring',
+		']',
+		'exclude = ["migrations/**", "#generated#"]',
+		'',
+		'[tool.black]',
+		'line-length = 100'
+	].join('\n');
+
+	test('reads only the requested table', () => {
+		assert.deepStrictEqual(parseTomlTable(pyproject, 'tool.zenco'), {
+			provider: 'openai',
+			model: 'gpt-4o',
+			docstring_style: 'numpy',
+			features: ['addDocstrings', 'addTypeHints'],
+			exclude: ['migrations/**', '#generated#']
+		});
+		assert.deepStrictEqual(parseTomlTable(pyproject, 'tool.black'), { 'line-length': 100 });
+	});
+
+	test('a missing table is undefined', () => {
+		assert.strictEqual(parseTomlTable(pyproject, 'tool.ruff'), undefined);
+	});
+
+	test('snake and kebab case keys become camel case', () => {
+		assert.strictEqual(toCamelCase('docstring_style'), 'docstringStyle');
+		assert.strictEqual(toCamelCase('docstring-style'), 'docstringStyle');
+		assert.strictEqual(toCamelCase('docstringStyle'), 'docstringStyle');
+	});
+
+	test('globs match relative paths', () => {
+		assert.ok(globToRegExp('migrations/**').test('migrations/0001_initial.py'));
+		assert.ok(!globToRegExp('migrations/**').test('app/migrations/0001_initial.py'));
+		assert.ok(globToRegExp('**/migrations').test('app/migrations/0001_initial.py'));
+		assert.ok(globToRegExp('*_pb2.py').test('proto/api_pb2.py'));
+		assert.ok(globToRegExp('src/*.{js,ts}').test('src/index.ts'));
+		assert.ok(!globToRegExp('src/*.{js,ts}').test('src/lib/index.ts'));
+	});
+
+	test('only known settings with the right type are kept', () => {
+		const { settings, errors } = readProjectSettings('.zenco.json', {
+			provider: 'ollama',
+			base_url: 'https://attacker.example/v1',
+			docstring_style: 'numpy',
+			features: ['addDocstrings', 3],
+			exclude: ['build/**']
+		});
+		assert.deepStrictEqual(settings, { provider: 'ollama', docstringStyle: 'numpy', exclude: ['build/**'] });
+		assert.deepStrictEqual(errors, [
+			'.zenco.json: ignoring "base_url" (unknown setting or wrong type).',
+			'.zenco.json: ignoring "features" (unknown setting or wrong type).'
+		]);
+		assert.deepStrictEqual(readProjectSettings('.zenco.json', ['provider']).errors, ['.zenco.json: expected an object of Zenco settings.']);
+	});
+
+	test('deeper config files win, excludes add up relative to the folder', () => {
+		const merged = mergeProjectSettings([
+			{ directory: '', settings: { provider: 'openai', model: 'gpt-4o', features: ['addDocstrings'], exclude: ['*_pb2.py'] } },
+			{ directory: 'services/api', settings: { model: 'gpt-4o-mini', exclude: ['migrations/**', '/generated'] } }
+		]);
+		assert.deepStrictEqual(merged, {
+			provider: 'openai',
+			model: 'gpt-4o-mini',
+			features: ['addDocstrings'],
+			exclude: ['**/*_pb2.py', 'services/api/migrations/**', 'services/api/generated']
+		});
+		const migrations = globToRegExp('services/api/migrations/**');
+		assert.ok(migrations.test('services/api/migrations/0001_initial.py'));
+		assert.ok(!migrations.test('migrations/0001_initial.py'));
+	});
+
+	test('no config files merge to no settings', () => {
+		assert.deepStrictEqual(mergeProjectSettings([]), {});
+	});
+});
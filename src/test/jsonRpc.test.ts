@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+import { JsonRpcConnection, MessageReader, ZencoServerError, encodeMessage } from '../jsonRpc';
+
+suite('JSON-RPC Test Suite', () => {
+	/**
+	 * A connection to a fake server: write to `stdout` to answer, read what the client sent from `stdin`
+	 */
+	function fakeServer() {
+		const stdout = new PassThrough();
+		const stdin = new PassThrough();
+		const connection = new JsonRpcConnection(stdout, stdin);
+		const sent = () => {
+			const messages: unknown[] = [];
+			const reader = new MessageReader(content => messages.push(JSON.parse(content)));
+			let chunk: Buffer | null;
+			while ((chunk = stdin.read()) !== null) {
+				reader.push(chunk);
+			}
+			return messages;
+		};
+		return { stdout, connection, sent };
+	}
+
+	function response(id: number, result: unknown): Buffer {
+		return encodeMessage({ jsonrpc: '2.0', id, result });
+	}
+
+	test('requests are framed with their length in bytes', () => {
+		const { connection, sent } = fakeServer();
+		connection.request('run', { content: 'π = 3.14\n' });
+
+		assert.deepStrictEqual(sent(), [{ jsonrpc: '2.0', id: 1, method: 'run', params: { content: 'π = 3.14\n' } }]);
+		assert.ok(encodeMessage({ content: 'π' }).toString('utf8').startsWith('Content-Length: 16\r\n\r\n'));
+	});
+
+	test('a message split across chunks is reassembled', async () => {
+		const { stdout, connection } = fakeServer();
+		const { result } = connection.request('run', {});
+
+		// Split inside the header, inside the blank line and inside a multi-byte character
+		const message = response(1, { modified_content: 'π = 3.14\n' });
+		const piAt = message.indexOf('π');
+		for (const [start, end] of [[0, 9], [9, 18], [18, 20], [20, piAt + 1], [piAt + 1, message.length]]) {
+			stdout.write(message.subarray(start, end));
+		}
+
+		assert.deepStrictEqual(await result, { modified_content: 'π = 3.14\n' });
+	});
+
+	test('two messages in one chunk are both delivered', async () => {
+		const { stdout, connection } = fakeServer();
+		const first = connection.request('run', { file: 'a.py' });
+		const second = connection.request('run', { file: 'b.py' });
+
+		// Answered in the other order
+		stdout.write(Buffer.concat([response(second.id, 'b'), response(first.id, 'a')]));
+
+		assert.deepStrictEqual(await Promise.all([first.result, second.result]), ['a', 'b']);
+	});
+
+	test('responses with an unknown id are ignored', async () => {
+		const { stdout, connection } = fakeServer();
+		const { id, result } = connection.request('run', {});
+
+		stdout.write(response(99, 'stray'));
+		stdout.write(encodeMessage({ jsonrpc: '2.0', method: 'log', params: {} }));
+		stdout.write(response(id, 'answer'));
+
+		assert.strictEqual(await result, 'answer');
+	});
+
+	test('error responses reject with the server error', async () => {
+		const { stdout, connection } = fakeServer();
+		const { id, result } = connection.request('run', {});
+
+		stdout.write(encodeMessage({ jsonrpc: '2.0', id, error: { code: -32602, message: 'unknown option --foo' } }));
+
+		await assert.rejects(result, (error: ZencoServerError) => error instanceof ZencoServerError && error.code === -32602);
+	});
+
+	test('a cancelled request is abandoned and the server told so', () => {
+		const { stdout, connection, sent } = fakeServer();
+		const { id } = connection.request('run', {});
+		connection.cancel(id);
+
+		assert.deepStrictEqual(sent()[1], { jsonrpc: '2.0', method: '$/cancelRequest', params: { id } });
+		// Its late response is one for an unknown id
+		stdout.write(response(id, 'late'));
+	});
+
+	test('a server exit rejects pending requests', async () => {
+		const { stdout, connection } = fakeServer();
+		const { result } = connection.request('run', {});
+
+		stdout.end();
+		await assert.rejects(result, /closed its output/);
+		await assert.rejects(connection.request('run', {}).result, /closed its output/);
+	});
+
+	test('closing the connection rejects pending requests with the reason', async () => {
+		const { connection } = fakeServer();
+		const { result } = connection.request('run', {});
+
+		connection.close(new Error('Zenco server exited with code 1'));
+		await assert.rejects(result, /exited with code 1/);
+	});
+});
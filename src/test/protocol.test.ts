@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { parseRunOutput, validateFileResult, findFileResult, errorsForFile, ProtocolError } from '../protocol';
+
+suite('Protocol Test Suite', () => {
+	const result = {
+		file: '/tmp/zenco-1/app.py',
+		success: true,
+		original_content: 'x = 1\n',
+		modified_content: 'X = 1\n',
+		changes: [{ type: 'magic_number', line: 1, description: 'Extracted constant' }],
+		stats: { magic_numbers_fixed: 1 }
+	};
+
+	test('reads the JSON after log lines', () => {
+		const output = parseRunOutput(`Loading model...\n{ "tokens": 3 } is not the result\n${JSON.stringify({ results: [result] }, null, 2)}\n`);
+		assert.strictEqual(output.schemaVersion, 1);
+		assert.deepStrictEqual(output.errors, []);
+		assert.strictEqual(output.results.length, 1);
+		assert.strictEqual(output.results[0].modifiedContent, 'X = 1\n');
+		assert.deepStrictEqual(output.results[0].changes, result.changes);
+		assert.deepStrictEqual(output.results[0].stats, { magic_numbers_fixed: 1 });
+	});
+
+	test('reads the JSON before trailing log lines', () => {
+		const output = parseRunOutput(`${JSON.stringify({ results: [result] })}\nDeprecationWarning: --strategy will be removed in 1.0\n`);
+		assert.strictEqual(output.results[0].modifiedContent, 'X = 1\n');
+	});
+
+	test('reads pretty-printed JSON between log lines', () => {
+		const stdout = [
+			'INFO using groq',
+			JSON.stringify({ results: [result] }, null, 2),
+			'Telemetry sent {id: 42}',
+			'done'
+		].join('\n');
+		assert.strictEqual(parseRunOutput(stdout).results[0].file, '/tmp/zenco-1/app.py');
+	});
+
+	test('a log line that starts with a brace does not hide the result', () => {
+		const stdout = `{retry} rate limited, waiting 2s\n${JSON.stringify({ results: [result] })}\n`;
+		assert.strictEqual(parseRunOutput(stdout).results.length, 1);
+	});
+
+	test('JSON log lines around the result are skipped', () => {
+		const stdout = [
+			'{"level": "info", "msg": "start"}',
+			JSON.stringify({ results: [result] }, null, 2),
+			'{"level": "info", "msg": "done"}'
+		].join('\n');
+		assert.strictEqual(parseRunOutput(stdout).results[0].changes.length, 1);
+	});
+
+	test('output without JSON is an error, not a success', () => {
+		assert.throws(() => parseRunOutput('Processed app.py\nDone.'), ProtocolError);
+	});
+
+	test('invalid fields are reported by path', () => {
+		const broken = { ...result, changes: [{ type: 'docstring', line: '3', description: 'Added' }] };
+		assert.throws(
+			() => parseRunOutput(JSON.stringify({ results: [result, broken] })),
+			(error: ProtocolError) => error.field === 'results[1].changes[0].line' && /expected a number, got string/.test(error.message)
+		);
+		assert.throws(() => validateFileResult({ file: 'app.py' }), (error: ProtocolError) => error.field === 'result.success');
+	});
+
+	test('a newer format that does not validate says so', () => {
+		assert.throws(
+			() => parseRunOutput(JSON.stringify({ schema_version: 2, results: { 'app.py': result } })),
+			(error: ProtocolError) => error.schemaVersion === 2 && /result format 2/.test(error.message)
+		);
+	});
+
+	test('results are matched to their file', () => {
+		const other = { ...result, file: '/tmp/zenco-1/other.py' };
+		const output = parseRunOutput(JSON.stringify({ results: [other, result] }));
+		assert.strictEqual(findFileResult(output, '/tmp/zenco-1/app.py')?.file, '/tmp/zenco-1/app.py');
+		assert.strictEqual(findFileResult(output, '/tmp/zenco-1/missing.py'), undefined);
+
+		const single = parseRunOutput(JSON.stringify({ results: [{ ...result, file: 'app.py' }] }));
+		assert.strictEqual(findFileResult(single, '/tmp/zenco-1/app.py')?.file, 'app.py');
+		assert.strictEqual(findFileResult(single, '/tmp/zenco-1/other.py'), undefined);
+	});
+
+	test('errors are kept for their file or for all files', () => {
+		const output = parseRunOutput(JSON.stringify({
+			results: [],
+			errors: ['GROQ_API_KEY is not set', { message: 'Syntax error', file: '/tmp/zenco-1/other.py', code: 'parse_error' }]
+		}));
+		assert.deepStrictEqual(errorsForFile(output, '/tmp/zenco-1/app.py'), [{ message: 'GROQ_API_KEY is not set' }]);
+		assert.strictEqual(errorsForFile(output, '/tmp/zenco-1/other.py').length, 2);
+	});
+});
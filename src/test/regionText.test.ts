@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { selectedLines, cutRegion, spliceRegion, dedent, reindent } from '../regionText';
+
+suite('Region Text Test Suite', () => {
+	const source = [
+		'class Shape:',
+		'    def area(self, r):',
+		'        return 3.14 * r * r',
+		'',
+		'    def name(self):',
+		'        return "shape"',
+		''
+	].join('\n');
+
+	test('a selection that starts mid-line covers the whole line', () => {
+		const span = { startLine: 1, endLine: 2 };
+		assert.deepStrictEqual(selectedLines({ line: 1, character: 8 }, { line: 2, character: 12 }), span);
+
+		const region = cutRegion(source, span);
+		assert.strictEqual(region.snippet, 'def area(self, r):\n    return 3.14 * r * r');
+		assert.strictEqual(region.indent, '    ');
+	});
+
+	test('a selection ending at the start of a line leaves that line out', () => {
+		assert.deepStrictEqual(selectedLines({ line: 1, character: 0 }, { line: 3, character: 0 }), { startLine: 1, endLine: 2 });
+	});
+
+	test('an empty selection covers no lines', () => {
+		assert.strictEqual(selectedLines({ line: 2, character: 5 }, { line: 2, character: 5 }), undefined);
+	});
+
+	test('the result is spliced back with the region indentation', () => {
+		const region = cutRegion(source, { startLine: 1, endLine: 2 });
+		const modified = 'def area(self, r):\n    """Area of a circle."""\n    return PI * r * r\n';
+
+		assert.strictEqual(spliceRegion(source, region, modified), source.replace(
+			'        return 3.14 * r * r',
+			'        """Area of a circle."""\n        return PI * r * r'
+		));
+	});
+
+	test('unchanged output leaves the document as it was', () => {
+		const region = cutRegion(source, { startLine: 4, endLine: 5 });
+		assert.strictEqual(spliceRegion(source, region, region.snippet), source);
+	});
+
+	test('only indentation shared by tabs and spaces is removed', () => {
+		const mixed = '\t  if x:\n\t    y = 1\n\n\t  z = 2';
+		assert.deepStrictEqual(dedent(mixed), { text: 'if x:\n  y = 1\n\nz = 2', indent: '\t  ' });
+		assert.strictEqual(reindent(dedent(mixed).text, '\t  '), mixed);
+
+		// Tabs on one line and spaces on another have nothing in common
+		assert.deepStrictEqual(dedent('\tx = 1\n    y = 2'), { text: '\tx = 1\n    y = 2', indent: '' });
+	});
+
+	test('CRLF documents keep their line endings', () => {
+		const crlf = source.replace(/\n/g, '\r\n');
+		const region = cutRegion(crlf, { startLine: 4, endLine: 5 });
+		assert.strictEqual(region.snippet, 'def name(self):\n    return "shape"');
+
+		// The CLI may answer with either line ending
+		const renamed = 'def name(self):\r\n    return "circle"\r\n';
+		assert.strictEqual(spliceRegion(crlf, region, renamed), crlf.replace('"shape"', '"circle"'));
+		assert.strictEqual(spliceRegion(crlf, region, renamed.replace(/\r\n/g, '\n')), crlf.replace('"shape"', '"circle"'));
+	});
+
+	test('the last line of a document without a final newline stays without one', () => {
+		const text = 'x = 1\r\ny = 2';
+		const region = cutRegion(text, { startLine: 1, endLine: 1 });
+		assert.strictEqual(spliceRegion(text, region, 'Y = 2\n'), 'x = 1\r\nY = 2');
+	});
+});
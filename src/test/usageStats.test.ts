@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { extractUsage, findPrice, estimateCost, addRun, sumTotals, dayKey, monthKey, formatTokens } from '../usageStats';
+
+suite('Usage Stats Test Suite', () => {
+	test('reads top-level counters', () => {
+		assert.deepStrictEqual(
+			extractUsage({ functions_documented: 3, input_tokens: 1200, output_tokens: 300, requests: 2 }),
+			{ inputTokens: 1200, outputTokens: 300, requests: 2 }
+		);
+	});
+
+	test('reads counters nested under usage, with provider SDK names', () => {
+		assert.deepStrictEqual(
+			extractUsage({ usage: { prompt_tokens: 50, completion_tokens: 20 } }),
+			{ inputTokens: 50, outputTokens: 20, requests: 1 }
+		);
+	});
+
+	test('a total without a split counts as input', () => {
+		assert.deepStrictEqual(extractUsage({ total_tokens: 900 }), { inputTokens: 900, outputTokens: 0, requests: 1 });
+		assert.deepStrictEqual(
+			extractUsage({ total_tokens: 900, output_tokens: 100 }),
+			{ inputTokens: 800, outputTokens: 100, requests: 1 }
+		);
+	});
+
+	test('stats without usage have none', () => {
+		assert.strictEqual(extractUsage({ magic_numbers_fixed: 2 }), undefined);
+		assert.strictEqual(extractUsage(undefined), undefined);
+	});
+
+	test('prices are looked up by provider/model, then model', () => {
+		const pricing = {
+			'groq/llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+			'gpt-4o': { input: 2.5, output: 10 }
+		};
+		assert.deepStrictEqual(findPrice(pricing, 'groq', 'llama-3.3-70b-versatile'), { input: 0.59, output: 0.79 });
+		assert.deepStrictEqual(findPrice(pricing, 'openai', 'gpt-4o'), { input: 2.5, output: 10 });
+		assert.strictEqual(findPrice(pricing, 'openai', 'gpt-4.1'), undefined);
+		assert.strictEqual(findPrice(pricing, 'openai', ''), undefined);
+	});
+
+	test('cost is per million tokens', () => {
+		assert.strictEqual(estimateCost({ inputTokens: 2_000_000, outputTokens: 500_000, requests: 4 }, { input: 2.5, output: 10 }), 10);
+	});
+
+	test('runs add up, counting those without a price', () => {
+		const usage = { inputTokens: 100, outputTokens: 10, requests: 1 };
+		const totals = addRun(addRun(undefined, usage, 0.5), usage, undefined);
+		assert.deepStrictEqual(totals, { inputTokens: 200, outputTokens: 20, requests: 2, runs: 2, cost: 0.5, unpricedRuns: 1 });
+		assert.deepStrictEqual(sumTotals([totals, totals]), {
+			inputTokens: 400, outputTokens: 40, requests: 4, runs: 4, cost: 1, unpricedRuns: 2
+		});
+	});
+
+	test('day and month keys use local time', () => {
+		const date = new Date(2025, 0, 5, 23, 30);
+		assert.strictEqual(dayKey(date), '2025-01-05');
+		assert.strictEqual(monthKey(date), '2025-01');
+	});
+
+	test('token counts are shortened', () => {
+		assert.strictEqual(formatTokens(950), '950');
+		assert.strictEqual(formatTokens(12_345), '12.3k');
+		assert.strictEqual(formatTokens(1_234_567), '1.2M');
+	});
+});
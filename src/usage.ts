@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import {
+    ModelPrice,
+    UsageTotals,
+    addRun,
+    dayKey,
+    estimateCost,
+    extractUsage,
+    findPrice,
+    formatTokens,
+    monthKey,
+    sumTotals
+} from './usageStats';
+
+/**
+ * Usage per day (`2025-11-28`), then per `provider/model`
+ */
+type UsageLog = Record<string, Record<string, UsageTotals>>;
+
+/**
+ * What the budgets say about runs that are about to start
+ */
+export interface BudgetCheck {
+    /** Why the runs must not start (a hard limit is or would be exceeded) */
+    blocked?: string;
+    /** A warning threshold is or would be exceeded */
+    warning?: string;
+    /** Estimated cost in USD of the runs, from this month's average cost per run */
+    estimatedCost?: number;
+}
+
+/**
+ * A row of the Usage view
+ */
+interface UsageNode {
+    label: string;
+    description?: string;
+    tooltip?: string;
+    icon?: string;
+    children?: UsageNode[];
+}
+
+const STORAGE_KEY = 'zenco.usage';
+// Days older than this are dropped
+const KEEP_DAYS = 400;
+
+/**
+ * Token and request counts per provider and model, taken from the `stats` of
+ * each run and kept in global state. Costs are estimated with `zenco.pricing`,
+ * and the `zenco.budget.*` settings warn about or block runs before they start.
+ */
+export class ZencoUsage implements vscode.TreeDataProvider<UsageNode> {
+    private static instance: ZencoUsage | undefined;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<UsageNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private log: UsageLog;
+    // Days on which the user already confirmed a warning, so single runs warn once a day
+    private readonly warned = new Set<string>();
+
+    private constructor(private readonly state: vscode.Memento) {
+        this.log = state.get<UsageLog>(STORAGE_KEY, {});
+    }
+
+    static initialize(context: vscode.ExtensionContext): ZencoUsage {
+        ZencoUsage.instance = new ZencoUsage(context.globalState);
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('zenco.budget') || event.affectsConfiguration('zenco.pricing')) {
+                    ZencoUsage.instance?._onDidChangeTreeData.fire(undefined);
+                }
+            })
+        );
+        return ZencoUsage.instance;
+    }
+
+    static getInstance(): ZencoUsage | undefined {
+        return ZencoUsage.instance;
+    }
+
+    /**
+     * Add the usage reported in a run's stats (nothing if it reports none)
+     */
+    record(provider: string, model: string, stats: Record<string, unknown> | undefined): void {
+        const usage = extractUsage(stats);
+        if (!usage) {
+            return;
+        }
+
+        const price = findPrice(getPricing(), provider, model);
+        const day = dayKey(new Date());
+        const key = model ? `${provider}/${model}` : provider;
+
+        const models = this.log[day] ?? {};
+        models[key] = addRun(models[key], usage, price ? estimateCost(usage, price) : undefined);
+        this.log[day] = models;
+
+        this.save();
+    }
+
+    /**
+     * Usage of today or this month, in total and per `provider/model`
+     */
+    totals(period: 'day' | 'month', date: Date = new Date()): { total: UsageTotals; byModel: Map<string, UsageTotals> } {
+        const prefix = period === 'day' ? dayKey(date) : monthKey(date);
+        const byModel = new Map<string, UsageTotals[]>();
+
+        for (const [day, models] of Object.entries(this.log)) {
+            if (!day.startsWith(prefix)) {
+                continue;
+            }
+            for (const [model, totals] of Object.entries(models)) {
+                byModel.set(model, [...(byModel.get(model) ?? []), totals]);
+            }
+        }
+
+        const summed = new Map([...byModel].map(([model, list]) => [model, sumTotals(list)] as const));
+        return { total: sumTotals([...summed.values()]), byModel: summed };
+    }
+
+    /**
+     * Check the budgets before starting `runs` runs
+     */
+    checkBudget(runs: number): BudgetCheck {
+        const budget = getBudget();
+        const month = this.totals('month').total;
+        const pricedRuns = month.runs - month.unpricedRuns;
+        const estimatedCost = pricedRuns > 0 ? (month.cost / pricedRuns) * runs : undefined;
+
+        const check: BudgetCheck = { estimatedCost };
+        const periods = [
+            { name: 'daily', spent: this.totals('day').total.cost, limit: budget.dailyLimit, warning: budget.dailyWarning },
+            { name: 'monthly', spent: month.cost, limit: budget.monthlyLimit, warning: budget.monthlyWarning }
+        ];
+
+        for (const period of periods) {
+            const projected = period.spent + (estimatedCost ?? 0);
+            if (period.limit > 0 && period.spent >= period.limit) {
+                check.blocked = `The ${period.name} Zenco budget of ${formatCost(period.limit)} is used up (${formatCost(period.spent)} spent).`;
+            } else if (period.limit > 0 && runs > 1 && projected > period.limit) {
+                check.blocked = `These ${runs} runs would cost about ${formatCost(estimatedCost ?? 0)}, more than the ` +
+                    `${formatCost(period.limit - period.spent)} left of the ${period.name} Zenco budget.`;
+            } else if (period.warning > 0 && projected >= period.warning && !check.warning) {
+                check.warning = `Zenco has used ${formatCost(period.spent)} of the ${period.name} warning threshold of ${formatCost(period.warning)}.`;
+            }
+            if (check.blocked) {
+                break;
+            }
+        }
+
+        return check;
+    }
+
+    /**
+     * Check the budgets before an interactive run of `runs` CLI requests (one per
+     * feature or recipe step): refuse it if a limit is or would be exceeded, and
+     * ask for confirmation the first time a day a warning threshold is crossed
+     *
+     * @returns true if the run may start
+     */
+    async confirmBudget(runs: number = 1): Promise<boolean> {
+        const check = this.checkBudget(runs);
+        if (check.blocked) {
+            const choice = await vscode.window.showErrorMessage(check.blocked, 'Open Budget Settings');
+            if (choice === 'Open Budget Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'zenco.budget');
+            }
+            return false;
+        }
+
+        const today = dayKey(new Date());
+        if (!check.warning || this.warned.has(today)) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(check.warning, { modal: true }, 'Run Anyway');
+        if (choice === 'Run Anyway') {
+            this.warned.add(today);
+            return true;
+        }
+        return false;
+    }
+
+    reset(): void {
+        this.log = {};
+        this.warned.clear();
+        this.save();
+    }
+
+    getTreeItem(node: UsageNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            node.label,
+            node.children ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = node.description;
+        item.tooltip = node.tooltip;
+        item.iconPath = node.icon ? new vscode.ThemeIcon(node.icon) : undefined;
+        return item;
+    }
+
+    getChildren(node?: UsageNode): UsageNode[] {
+        if (node) {
+            return node.children ?? [];
+        }
+        if (Object.keys(this.log).length === 0) {
+            return [];
+        }
+
+        const budget = getBudget();
+        return [
+            this.periodNode('Today', 'day', budget.dailyLimit || budget.dailyWarning),
+            this.periodNode('This Month', 'month', budget.monthlyLimit || budget.monthlyWarning)
+        ];
+    }
+
+    private periodNode(label: string, period: 'day' | 'month', budget: number): UsageNode {
+        const { total, byModel } = this.totals(period);
+        return {
+            label,
+            icon: period === 'day' ? 'calendar' : 'graph',
+            description: `${formatCost(total.cost)}${budget > 0 ? ` of ${formatCost(budget)}` : ''} · ${describeTotals(total)}`,
+            tooltip: tooltipOf(total),
+            children: [...byModel].sort(([, a], [, b]) => b.cost - a.cost).map(([model, totals]) => ({
+                label: model,
+                description: `${formatCost(totals.cost)} · ${describeTotals(totals)}`,
+                tooltip: tooltipOf(totals)
+            }))
+        };
+    }
+
+    private save(): void {
+        const oldest = dayKey(new Date(Date.now() - KEEP_DAYS * 24 * 60 * 60 * 1000));
+        for (const day of Object.keys(this.log)) {
+            if (day < oldest) {
+                delete this.log[day];
+            }
+        }
+
+        this._onDidChangeTreeData.fire(undefined);
+        Promise.resolve(this.state.update(STORAGE_KEY, this.log)).catch(() => undefined);
+    }
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+function describeTotals(totals: UsageTotals): string {
+    return `${formatTokens(totals.inputTokens + totals.outputTokens)} tokens · ${totals.requests} request(s)`;
+}
+
+function tooltipOf(totals: UsageTotals): string {
+    return [
+        `${totals.runs} run(s), ${totals.requests} request(s)`,
+        `${totals.inputTokens.toLocaleString()} input and ${totals.outputTokens.toLocaleString()} output tokens`,
+        `Estimated cost: ${formatCost(totals.cost)}`,
+        ...(totals.unpricedRuns > 0 ? [`${totals.unpricedRuns} run(s) not priced: add their model to zenco.pricing`] : [])
+    ].join('\n');
+}
+
+function getPricing(): Record<string, ModelPrice> {
+    return vscode.workspace.getConfiguration('zenco').get<Record<string, ModelPrice>>('pricing', {});
+}
+
+function getBudget() {
+    const config = vscode.workspace.getConfiguration('zenco.budget');
+    return {
+        dailyWarning: config.get<number>('dailyWarning', 0),
+        dailyLimit: config.get<number>('dailyLimit', 0),
+        monthlyWarning: config.get<number>('monthlyWarning', 0),
+        monthlyLimit: config.get<number>('monthlyLimit', 0)
+    };
+}
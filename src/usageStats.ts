@@ -0,0 +1,147 @@
+/**
+ * Tokens and requests used by one run, as reported in the CLI's `stats`
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    requests: number;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Usage added up over several runs
+ */
+export interface UsageTotals extends TokenUsage {
+    runs: number;
+    /** Estimated cost in USD of the runs that have a price */
+    cost: number;
+    /** Runs whose model has no entry in the price table */
+    unpricedRuns: number;
+}
+
+// Names the CLI (and the provider SDKs it passes through) use for the counters
+const INPUT_KEYS = ['input_tokens', 'prompt_tokens', 'inputTokens', 'promptTokens'];
+const OUTPUT_KEYS = ['output_tokens', 'completion_tokens', 'outputTokens', 'completionTokens'];
+const TOTAL_KEYS = ['total_tokens', 'totalTokens', 'tokens'];
+const REQUEST_KEYS = ['requests', 'llm_calls', 'api_calls', 'llmCalls', 'apiCalls'];
+// Objects the counters may be nested in
+const USAGE_KEYS = ['usage', 'token_usage', 'tokenUsage', 'tokens', 'llm'];
+
+/**
+ * Read the token and request counters from a result's stats, top level or
+ * nested under `usage`/`tokens`. A total without an input/output split counts
+ * as input.
+ *
+ * @returns undefined if the stats carry no usage at all (e.g. no LLM was called)
+ */
+export function extractUsage(stats: Record<string, unknown> | undefined): TokenUsage | undefined {
+    if (!stats) {
+        return undefined;
+    }
+
+    const scopes = [stats, ...USAGE_KEYS.map(key => stats[key]).filter(isRecord)];
+    const read = (keys: string[]) => {
+        for (const scope of scopes) {
+            for (const key of keys) {
+                if (typeof scope[key] === 'number' && Number.isFinite(scope[key])) {
+                    return scope[key] as number;
+                }
+            }
+        }
+        return undefined;
+    };
+
+    const input = read(INPUT_KEYS);
+    const output = read(OUTPUT_KEYS);
+    const total = read(TOTAL_KEYS);
+    const requests = read(REQUEST_KEYS);
+    if (input === undefined && output === undefined && total === undefined && requests === undefined) {
+        return undefined;
+    }
+
+    return {
+        inputTokens: input ?? (output === undefined ? total ?? 0 : Math.max((total ?? 0) - output, 0)),
+        outputTokens: output ?? 0,
+        requests: requests ?? 1
+    };
+}
+
+/**
+ * Look up a model in the price table: `provider/model` first, then the model alone
+ */
+export function findPrice(pricing: Record<string, ModelPrice>, provider: string, model: string): ModelPrice | undefined {
+    const price = pricing[`${provider}/${model}`] ?? (model ? pricing[model] : undefined);
+    return price && typeof price.input === 'number' && typeof price.output === 'number' ? price : undefined;
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Add one run to some totals
+ *
+ * @param cost - undefined if the model has no price
+ */
+export function addRun(totals: UsageTotals | undefined, usage: TokenUsage, cost: number | undefined): UsageTotals {
+    const sum = totals ?? emptyTotals();
+    return {
+        inputTokens: sum.inputTokens + usage.inputTokens,
+        outputTokens: sum.outputTokens + usage.outputTokens,
+        requests: sum.requests + usage.requests,
+        runs: sum.runs + 1,
+        cost: sum.cost + (cost ?? 0),
+        unpricedRuns: sum.unpricedRuns + (cost === undefined ? 1 : 0)
+    };
+}
+
+export function sumTotals(list: UsageTotals[]): UsageTotals {
+    return list.reduce((sum, totals) => ({
+        inputTokens: sum.inputTokens + totals.inputTokens,
+        outputTokens: sum.outputTokens + totals.outputTokens,
+        requests: sum.requests + totals.requests,
+        runs: sum.runs + totals.runs,
+        cost: sum.cost + totals.cost,
+        unpricedRuns: sum.unpricedRuns + totals.unpricedRuns
+    }), emptyTotals());
+}
+
+export function emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, requests: 0, runs: 0, cost: 0, unpricedRuns: 0 };
+}
+
+/**
+ * `2025-11-28` in local time; its first seven characters are the month
+ */
+export function dayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function monthKey(date: Date): string {
+    return dayKey(date).slice(0, 7);
+}
+
+/**
+ * `1234567` -> `1.2M`
+ */
+export function formatTokens(count: number): string {
+    if (count >= 1_000_000) {
+        return `${(count / 1_000_000).toFixed(1)}M`;
+    }
+    if (count >= 1_000) {
+        return `${(count / 1_000).toFixed(1)}k`;
+    }
+    return String(count);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,19 +1,135 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ZencoConfig } from './config';
 import { Logger } from './logger';
-import { checkCliInstallation } from './cliManager';
+import { getCliInstallation } from './cliManager';
+import { ZencoServer, ZencoServerError } from './zencoServer';
+import { ZencoResultCache, cacheKey } from './resultCache';
+import { computeHunks, followLine } from './changeHunks';
+import { selectedLines, cutRegion, spliceRegion } from './regionText';
+import { ZencoUsage } from './usage';
+import { ZencoCapabilities, describeMissingOptions } from './capabilities';
+import { missingOptions } from './cliCapabilities';
+import { CliFileResult, CliRunOutput, ProtocolError, ZencoChange, errorsForFile, findFileResult, parseRunOutput, validateFileResult } from './protocol';
 
-const execAsync = promisify(exec);
+export type { ZencoChange } from './protocol';
+
+/**
+ * How a run ended. `success` is true only for 'completed'.
+ */
+export type ZencoRunStatus = 'completed' | 'failed' | 'cancelled' | 'timedOut';
 
 export interface ZencoResult {
     success: boolean;
+    status: ZencoRunStatus;
     output?: string;
     error?: string;
     originalContent?: string;
     modifiedContent?: string;
-    changes?: any[];
+    changes?: ZencoChange[];
+    /** Counters reported by the CLI, e.g. how many functions were documented */
+    stats?: Record<string, unknown>;
+    /** Per-step breakdown when the result comes from a multi-step pipeline */
+    steps?: ZencoStepResult[];
+    /** Served from the result cache instead of running the CLI */
+    cached?: boolean;
+}
+
+/**
+ * One step of a pipeline: a feature name and the CLI flags it runs with
+ */
+export interface ZencoPipelineStep {
+    name: string;
+    options: string[];
+    /** Profile the step runs with (`zenco.profiles`), instead of the pipeline's */
+    profile?: string;
+}
+
+export interface ZencoStepResult {
+    name: string;
+    changes: ZencoChange[];
+}
+
+/**
+ * Options controlling a single CLI invocation
+ */
+export interface ZencoExecOptions {
+    /** Path shown in the output instead of the file actually processed (e.g. for temporary copies) */
+    displayPath?: string;
+    /** Cancelling the token kills the CLI process */
+    token?: vscode.CancellationToken;
+    /** Document the run is for; decides which folder, language and project settings apply */
+    document?: vscode.TextDocument;
+    /** Profile to run with (`zenco.profiles`) instead of the active one */
+    profile?: string;
+}
+
+interface ProcessOutput {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    status: 'exited' | 'cancelled' | 'timedOut';
+}
+
+/**
+ * Spawn the CLI and collect its output. The process is killed when the token
+ * is cancelled or when the timeout (in seconds, 0 to disable) elapses.
+ */
+function runProcess(
+    executable: string,
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    timeoutSeconds: number,
+    token?: vscode.CancellationToken
+): Promise<ProcessOutput> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(executable, args, { env, windowsHide: true });
+
+        // Collect chunks instead of relying on exec's maxBuffer, which large files overflow
+        const stdoutChunks: Buffer[] = [];
+        const stderrChunks: Buffer[] = [];
+        child.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+        child.stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+        let status: ProcessOutput['status'] = 'exited';
+
+        const timer = timeoutSeconds > 0
+            ? setTimeout(() => {
+                status = 'timedOut';
+                child.kill();
+            }, timeoutSeconds * 1000)
+            : undefined;
+
+        const cancelListener = token?.onCancellationRequested(() => {
+            status = 'cancelled';
+            child.kill();
+        });
+
+        const cleanup = () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            cancelListener?.dispose();
+        };
+
+        child.on('error', error => {
+            cleanup();
+            reject(error);
+        });
+
+        child.on('close', exitCode => {
+            cleanup();
+            resolve({
+                stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+                stderr: Buffer.concat(stderrChunks).toString('utf8'),
+                exitCode,
+                status
+            });
+        });
+    });
 }
 
 /**
@@ -21,105 +137,139 @@ export interface ZencoResult {
  */
 export async function runZencoCommand(
     filePath: string,
-    options: string[] = ['--refactor']
+    options: string[] = ['--refactor'],
+    execOptions: ZencoExecOptions = {}
 ): Promise<ZencoResult> {
+    const displayPath = execOptions.displayPath ?? filePath;
+
     try {
+        if (execOptions.token?.isCancellationRequested) {
+            return { success: false, status: 'cancelled', error: 'Cancelled by user' };
+        }
+
         // ✨ Check if config is valid (has API key if using LLM)
-        const configCheck = ZencoConfig.isConfigValid();
+        const configCheck = await ZencoConfig.isConfigValid(execOptions.document, execOptions.profile);
         if (!configCheck.valid) {
             return {
                 success: false,
+                status: 'failed',
                 error: configCheck.message
             };
         }
 
         // ✨ Build CLI arguments with configuration (provider, model, style, strategy)
-        const cliArgs = ZencoConfig.buildCliArgs(options);
+        const cliArgs = ZencoConfig.buildCliArgs(options, execOptions.document, execOptions.profile);
 
         // ✨ Always add --json flag
         // We use Set to avoid duplicates if options already has --json
         const uniqueOptions = Array.from(new Set([...cliArgs, '--json']));
 
-        // ✨ Resolve CLI path (handles PATH issues)
-        const cliCheck = await checkCliInstallation();
+        // ✨ Resolve CLI path (handles PATH issues), checked once per session
+        const cliCheck = await getCliInstallation();
         const zencoExecutable = cliCheck.resolvedPath || 'zenco';
 
-        const zencoCommand = `"${zencoExecutable}" run "${filePath}" ${uniqueOptions.join(' ')}`;
-        Logger.getInstance().info('Running: ' + zencoCommand); // For debugging
+        const args = ['run', filePath, ...uniqueOptions];
+        Logger.getInstance().info(`Running: "${zencoExecutable}" ${args.join(' ')}`); // For debugging
 
         // ✨ Get environment variables with API key (passed securely via env, not CLI)
-        const env = ZencoConfig.getEnvVars();
+        const env = await ZencoConfig.getEnvVars(execOptions.document, execOptions.profile);
+        const timeoutSeconds = ZencoConfig.getConfig(execOptions.document).timeoutSeconds;
 
-        const { stdout, stderr } = await execAsync(zencoCommand, { env });
+        const { stdout, stderr, exitCode, status } = await runProcess(
+            zencoExecutable,
+            args,
+            env,
+            timeoutSeconds,
+            execOptions.token
+        );
 
-        try {
-            // ✨ NEW: Parse JSON output
-            // Zenco might output some logs before JSON, so we look for the JSON object
-            const jsonStart = stdout.indexOf('{');
-            const jsonEnd = stdout.lastIndexOf('}');
-
-            if (jsonStart === -1 || jsonEnd === -1) {
-                throw new Error('No JSON output found');
-            }
+        if (status === 'cancelled') {
+            return { success: false, status: 'cancelled', error: 'Cancelled by user' };
+        }
 
-            const jsonStr = stdout.substring(jsonStart, jsonEnd + 1);
-            const data = JSON.parse(jsonStr);
+        if (status === 'timedOut') {
+            return {
+                success: false,
+                status: 'timedOut',
+                error: `Zenco did not finish within ${timeoutSeconds} seconds (zenco.timeoutSeconds)`
+            };
+        }
 
-            // Check for errors in the JSON response
-            if (data.errors && data.errors.length > 0) {
+        let output: CliRunOutput;
+        try {
+            output = parseRunOutput(stdout);
+        } catch (error) {
+            if (!(error instanceof ProtocolError)) {
+                throw error;
+            }
+            if (exitCode !== 0) {
                 return {
                     success: false,
-                    error: data.errors[0].message
+                    status: 'failed',
+                    error: stderr.trim() || `Zenco CLI exited with code ${exitCode}`
                 };
             }
+            Logger.getInstance().error(`Invalid Zenco CLI output for ${displayPath}: ${error.message}`);
+            Logger.getInstance().info('Raw Output: ' + stdout);
+            return { success: false, status: 'failed', error: `The Zenco CLI returned an invalid result (${error.message})` };
+        }
 
-            // Get the result for the specific file
-            // Since we usually process one file at a time in the extension
-            const fileResult = data.results.find((r: any) => r.file === filePath) || data.results[0];
-
-            if (!fileResult) {
-                return { success: false, error: 'No result found for file' };
-            }
+        // Errors about this file (or none in particular) fail the run, even if the CLI exited normally
+        const errors = errorsForFile(output, filePath);
+        if (errors.length > 0) {
+            return { success: false, status: 'failed', error: errors.map(error => error.message).join('\n') };
+        }
 
+        const fileResult = findFileResult(output, filePath);
+        if (!fileResult) {
             return {
-                success: fileResult.success,
-                output: formatOutput(fileResult), // Helper to format text for output panel
-                originalContent: fileResult.original_content,
-                modifiedContent: fileResult.modified_content,
-                changes: fileResult.changes
+                success: false,
+                status: 'failed',
+                error: exitCode !== 0
+                    ? stderr.trim() || `Zenco CLI exited with code ${exitCode}`
+                    : `The Zenco CLI returned no result for ${displayPath}`
             };
-
-        } catch (parseError) {
-            // Fallback for non-JSON output or parse errors
-            Logger.getInstance().error('JSON Parse Error: ' + String(parseError));
-            Logger.getInstance().info('Raw Output: ' + stdout);
-
-            if (stderr && !stdout) {
-                return { success: false, error: stderr };
-            }
-            return { success: true, output: stdout };
         }
+
+        return toZencoResult(fileResult, displayPath);
     } catch (error) {
         return {
             success: false,
+            status: 'failed',
             error: error instanceof Error ? error.message : String(error)
         };
     }
 }
 
+/**
+ * Convert the CLI's result for one file (from `--json` output or the server)
+ */
+function toZencoResult(fileResult: CliFileResult, displayPath: string): ZencoResult {
+    return {
+        success: fileResult.success,
+        status: fileResult.success ? 'completed' : 'failed',
+        output: formatOutput(fileResult, displayPath), // Helper to format text for output panel
+        error: fileResult.success ? undefined : fileResult.error ?? `Zenco could not process ${displayPath}`,
+        originalContent: fileResult.originalContent,
+        modifiedContent: fileResult.modifiedContent,
+        changes: fileResult.changes,
+        stats: fileResult.stats
+    };
+}
+
 /**
  * Helper to format JSON result into readable text for the Output panel
  */
-function formatOutput(result: any): string {
-    let text = `Processed: ${result.file}\n`;
+function formatOutput(result: CliFileResult, displayPath: string): string {
+    let text = `Processed: ${displayPath}\n`;
 
     if (result.stats) {
         text += `Stats: ${JSON.stringify(result.stats, null, 2)}\n`;
     }
 
-    if (result.changes && result.changes.length > 0) {
+    if (result.changes.length > 0) {
         text += '\nChanges:\n';
-        result.changes.forEach((change: any) => {
+        result.changes.forEach(change => {
             text += `  [${change.type.toUpperCase()}] Line ${change.line}: ${change.description}\n`;
         });
     } else {
@@ -129,68 +279,378 @@ function formatOutput(result: any): string {
     return text;
 }
 
+/**
+ * Options shared by all feature wrappers
+ */
+export interface ZencoRunOptions {
+    /** Only process these lines of the document instead of the whole file */
+    range?: vscode.Range;
+    /** Cancelling the token kills the CLI process */
+    token?: vscode.CancellationToken;
+    /** Profile to run with (`zenco.profiles`) instead of the active one */
+    profile?: string;
+}
+
+/**
+ * File extensions for languages Zenco supports, used to name temporary
+ * copies of untitled documents so the CLI can detect the language
+ */
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+    python: '.py',
+    javascript: '.js',
+    javascriptreact: '.jsx',
+    typescript: '.ts',
+    typescriptreact: '.tsx',
+    java: '.java',
+    go: '.go',
+    cpp: '.cpp',
+    c: '.c'
+};
+
+/**
+ * Whether the CLI can process documents of a language
+ */
+export function isSupportedLanguage(languageId: string): boolean {
+    return languageId in LANGUAGE_EXTENSIONS;
+}
+
+/**
+ * File name the CLI should see for a document
+ */
+function cliFileName(document: vscode.TextDocument): string {
+    const baseName = path.basename(document.fileName);
+    if (path.extname(baseName)) {
+        return baseName;
+    }
+    return baseName + (LANGUAGE_EXTENSIONS[document.languageId] ?? '');
+}
+
+/**
+ * Runs the Zenco CLI on some content: through the server when it is available,
+ * otherwise by writing it to a temporary file that keeps the original file name
+ * (so the CLI detects the language). Content that was processed before with the
+ * same options, provider, model and docstring style is answered from the result cache.
+ */
+export async function runZencoOnContent(
+    content: string,
+    fileName: string,
+    options: string[],
+    execOptions: ZencoExecOptions = {}
+): Promise<ZencoResult> {
+    const cliArgs = ZencoConfig.buildCliArgs(options, execOptions.document, execOptions.profile);
+    const cli = await getCliInstallation();
+
+    // Refuse runs the installed CLI cannot do rather than letting it fail on an unknown option
+    const executable = cli.resolvedPath || 'zenco';
+    const capabilities = cli.installed ? await ZencoCapabilities.getInstance()?.get(executable, cli.version) : undefined;
+    const missing = capabilities ? missingOptions(capabilities, cliArgs) : [];
+    if (capabilities && missing.length > 0) {
+        return { success: false, status: 'failed', error: describeMissingOptions(capabilities, executable, missing) };
+    }
+
+    const cache = ZencoResultCache.getInstance();
+    const key = cache && cacheKey(content, fileName, cliArgs, cli.version);
+
+    const cached = key ? await cache.get(key) : undefined;
+    if (cached) {
+        Logger.getInstance().info(`Using cached result for ${execOptions.displayPath ?? fileName}`);
+        return cached;
+    }
+
+    const result = (await runOnServer(content, fileName, options, execOptions))
+        ?? (await runOnTempFile(content, fileName, options, execOptions));
+
+    const config = ZencoConfig.getConfig(execOptions.document, execOptions.profile);
+    ZencoUsage.getInstance()?.record(config.provider, config.model, result.stats);
+
+    if (key && result.success) {
+        await cache.set(key, result);
+    }
+    return result;
+}
+
+/**
+ * Run the CLI once on a temporary copy of the content
+ */
+async function runOnTempFile(
+    content: string,
+    fileName: string,
+    options: string[],
+    execOptions: ZencoExecOptions
+): Promise<ZencoResult> {
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zenco-'));
+    const tempFile = path.join(tempDir, path.basename(fileName));
+
+    try {
+        await fs.promises.writeFile(tempFile, content, 'utf8');
+        const result = await runZencoCommand(tempFile, options, {
+            displayPath: fileName,
+            ...execOptions
+        });
+
+        // The CLI only ever saw the temporary copy, so the content we sent is the original
+        return result.success ? { ...result, originalContent: content } : result;
+    } finally {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Send a run to the Zenco server
+ *
+ * @returns undefined if the run should go through a one-shot process instead
+ * (server mode unavailable, or the server died while handling it)
+ */
+async function runOnServer(
+    content: string,
+    fileName: string,
+    options: string[],
+    execOptions: ZencoExecOptions
+): Promise<ZencoResult | undefined> {
+    const server = ZencoServer.getInstance();
+    if (!server) {
+        return undefined;
+    }
+
+    if (execOptions.token?.isCancellationRequested) {
+        return { success: false, status: 'cancelled', error: 'Cancelled by user' };
+    }
+
+    const configCheck = await ZencoConfig.isConfigValid(execOptions.document, execOptions.profile);
+    if (!configCheck.valid) {
+        return { success: false, status: 'failed', error: configCheck.message };
+    }
+
+    const cliCheck = await getCliInstallation();
+    const displayPath = execOptions.displayPath ?? fileName;
+    const timeoutSeconds = ZencoConfig.getConfig(execOptions.document).timeoutSeconds;
+    const params = {
+        file: fileName,
+        content,
+        // The server always answers with the JSON result
+        options: ZencoConfig.buildCliArgs(options, execOptions.document, execOptions.profile).filter(option => option !== '--json'),
+        env: await ZencoConfig.getProviderEnv(execOptions.document, execOptions.profile)
+    };
+
+    try {
+        const response = await server.request<unknown>(
+            cliCheck.resolvedPath || 'zenco',
+            'run',
+            params,
+            timeoutSeconds,
+            execOptions.token
+        );
+
+        if (!response) {
+            return undefined;
+        }
+        if (response.status !== 'completed') {
+            return response.status === 'cancelled'
+                ? { success: false, status: 'cancelled', error: 'Cancelled by user' }
+                : {
+                    success: false,
+                    status: 'timedOut',
+                    error: `Zenco did not finish within ${timeoutSeconds} seconds (zenco.timeoutSeconds)`
+                };
+        }
+
+        let fileResult: CliFileResult;
+        try {
+            fileResult = validateFileResult(response.result);
+        } catch (error) {
+            if (!(error instanceof ProtocolError)) {
+                throw error;
+            }
+            Logger.getInstance().error(`Invalid Zenco server result for ${displayPath}: ${error.message}`);
+            return { success: false, status: 'failed', error: `The Zenco server returned an invalid result (${error.message})` };
+        }
+
+        const result = toZencoResult(fileResult, displayPath);
+        return result.success ? { ...result, originalContent: content } : result;
+    } catch (error) {
+        if (error instanceof ZencoServerError) {
+            return { success: false, status: 'failed', error: error.message };
+        }
+        Logger.getInstance().warn(`Zenco server failed on ${displayPath} (${String(error)}), running it once instead`);
+        return undefined;
+    }
+}
+
+/**
+ * Runs the CLI on a single region of a document and splices the result back
+ * into the full document text, so callers always get whole-file content
+ */
+async function runZencoOnRange(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    options: string[],
+    runOptions: ZencoRunOptions
+): Promise<ZencoResult> {
+    // Always work on whole lines; an empty range is the line it is on
+    const span = selectedLines(range.start, range.end) ?? { startLine: range.start.line, endLine: range.start.line };
+    const documentText = document.getText();
+    const region = cutRegion(documentText, span);
+
+    const result = await runZencoOnContent(region.snippet, cliFileName(document), options, {
+        displayPath: document.fileName,
+        document,
+        token: runOptions.token,
+        profile: runOptions.profile
+    });
+    if (!result.success || result.modifiedContent === undefined) {
+        return result;
+    }
+
+    return {
+        ...result,
+        originalContent: documentText,
+        modifiedContent: spliceRegion(documentText, region, result.modifiedContent),
+        changes: result.changes?.map(change => ({ ...change, line: change.line + span.startLine }))
+    };
+}
+
+/**
+ * Run a feature on the whole document, or only on `runOptions.range` if given.
+ * The in-memory text is sent, so unsaved edits and untitled documents are processed as shown.
+ */
+function runOnDocument(
+    document: vscode.TextDocument,
+    options: string[],
+    runOptions: ZencoRunOptions
+): Promise<ZencoResult> {
+    if (runOptions.range) {
+        return runZencoOnRange(document, runOptions.range, options, runOptions);
+    }
+    return runZencoOnContent(document.getText(), cliFileName(document), options, {
+        displayPath: document.fileName,
+        document,
+        token: runOptions.token,
+        profile: runOptions.profile
+    });
+}
+
+/**
+ * Run several features one after another, each on the previous step's output,
+ * and return a single result from the original text to the final one
+ */
+export async function runZencoPipeline(
+    document: vscode.TextDocument,
+    steps: ZencoPipelineStep[],
+    runOptions: ZencoRunOptions = {}
+): Promise<ZencoResult> {
+    const originalContent = document.getText();
+    let content = originalContent;
+    const stepResults: ZencoStepResult[] = [];
+    // The text after each step, starting with the original
+    const versions = [originalContent];
+    const outputs: string[] = [];
+    const stats: Record<string, unknown> = {};
+
+    for (const [index, step] of steps.entries()) {
+        const result = await runZencoOnContent(content, cliFileName(document), step.options, {
+            displayPath: document.fileName,
+            document,
+            token: runOptions.token,
+            profile: step.profile ?? runOptions.profile
+        });
+
+        if (!result.success) {
+            return {
+                ...result,
+                error: `Step ${index + 1} (${step.name}) failed: ${result.error}`,
+                steps: stepResults
+            };
+        }
+
+        const changes = result.changes ?? [];
+        stepResults.push({ name: step.name, changes });
+        // Counters of the same name add up across steps
+        for (const [key, value] of Object.entries(result.stats ?? {})) {
+            stats[key] = typeof value === 'number' && typeof stats[key] === 'number' ? (stats[key] as number) + value : value;
+        }
+        outputs.push(`--- Step ${index + 1}: ${step.name} (${changes.length} change(s)) ---\n${result.output ?? ''}`);
+
+        if (result.modifiedContent !== undefined) {
+            content = result.modifiedContent;
+        }
+        versions.push(content);
+    }
+
+    // Each step reports lines of its own output; carry them through the edits of
+    // the steps after it so they refer to the final text
+    const laterEdits = versions.slice(2).map((version, i) => computeHunks(versions[i + 1], version));
+    const changes = stepResults.flatMap((step, index) => step.changes.map(change => ({
+        ...change,
+        line: laterEdits.slice(index).reduce((line, hunks) => followLine(line - 1, hunks) + 1, change.line)
+    })));
+
+    return {
+        success: true,
+        status: 'completed',
+        output: outputs.join('\n'),
+        originalContent,
+        modifiedContent: content,
+        changes,
+        stats,
+        steps: stepResults
+    };
+}
+
 /**
  * Refactors the current file using Zenco
  * @param document - The VS Code document to refactor
+ * @param runOptions - Optional range to limit the refactor to
  * @returns Promise with the refactored content
  */
-export async function refactorFile(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--refactor']);  // ✅ Pass options as array
+export async function refactorFile(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--refactor'], runOptions);
 }
 
 /**
  * Adds docstrings to the current file
  */
-export async function addDocstrings(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--docstrings']);
+export async function addDocstrings(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--docstrings'], runOptions);
 }
 
 /**
  * Adds type hints to the current file
  */
-export async function addTypeHints(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--add-type-hints']);
+export async function addTypeHints(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--add-type-hints'], runOptions);
 }
 
 /**
  * Fixes magic numbers in the current file
  */
-export async function fixMagicNumbers(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--fix-magic-numbers']);
+export async function fixMagicNumbers(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--fix-magic-numbers'], runOptions);
 }
 
 /**
  * Removes dead code from the current file
  */
-export async function removeDeadCode(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--dead-code']);
+export async function removeDeadCode(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--dead-code'], runOptions);
 }
 
 /**
  * Refactor file with strict mode (includes strict dead code removal)
  */
-export async function refactorFileStrict(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--refactor-strict']);
+export async function refactorFileStrict(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--refactor-strict'], runOptions);
 }
 
 /**
  * Remove dead code with strict mode
  */
-export async function removeDeadCodeStrict(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--dead-code-strict']);
+export async function removeDeadCodeStrict(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--dead-code-strict'], runOptions);
 }
 
 /**
  * Improve existing docstrings (overwrite poor quality ones)
  */
-export async function improveDocstrings(document: vscode.TextDocument): Promise<ZencoResult> {
-    const filePath = document.uri.fsPath;
-    return runZencoCommand(filePath, ['--docstrings', '--overwrite-existing']);
+export async function improveDocstrings(document: vscode.TextDocument, runOptions: ZencoRunOptions = {}): Promise<ZencoResult> {
+    return runOnDocument(document, ['--docstrings', '--overwrite-existing'], runOptions);
 }
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { JsonRpcConnection, ZencoServerError } from './jsonRpc';
+import { Logger } from './logger';
+
+export { ZencoServerError };
+
+/**
+ * Outcome of a request to the server
+ */
+export type ServerResponse<T> =
+    | { status: 'completed'; result: T }
+    | { status: 'cancelled' | 'timedOut' };
+
+const PROTOCOL_VERSION = 1;
+const HANDSHAKE_TIMEOUT_MS = 10_000;
+// A server that crashes this often within the window is given up on for the session
+const MAX_CRASHES = 3;
+const CRASH_WINDOW_MS = 60_000;
+
+/**
+ * One long-lived `zenco serve --stdio` process speaking JSON-RPC 2.0, framed
+ * with `Content-Length` headers, so runs don't pay the CLI's start-up cost.
+ *
+ * The process is started on first use and restarted after a crash. Executables
+ * that don't support server mode (or keep crashing) are remembered, and
+ * `request` then returns undefined so callers fall back to one-shot runs.
+ */
+export class ZencoServer implements vscode.Disposable {
+    private static instance: ZencoServer | undefined;
+
+    private child: ChildProcessWithoutNullStreams | undefined;
+    private connection: JsonRpcConnection | undefined;
+    private executable: string | undefined;
+    private starting: Promise<boolean> | undefined;
+    private crashes: number[] = [];
+    // Executables without (working) server support
+    private readonly unsupported = new Set<string>();
+
+    static initialize(): ZencoServer {
+        ZencoServer.instance = new ZencoServer();
+        return ZencoServer.instance;
+    }
+
+    static getInstance(): ZencoServer | undefined {
+        return ZencoServer.instance;
+    }
+
+    /**
+     * Send a request, starting the server if needed
+     *
+     * @returns undefined if server mode is unavailable for this executable
+     * @throws ZencoServerError if the server rejects the request, Error if it dies while handling it
+     */
+    async request<T>(
+        executable: string,
+        method: string,
+        params: object,
+        timeoutSeconds: number,
+        token?: vscode.CancellationToken
+    ): Promise<ServerResponse<T> | undefined> {
+        if (!(await this.ensureStarted(executable))) {
+            return undefined;
+        }
+
+        const connection = this.connection;
+        if (!connection) {
+            throw new Error('Zenco server is not running');
+        }
+        const { id, result } = connection.request(method, params);
+
+        return new Promise<ServerResponse<T>>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            let cancelListener: vscode.Disposable | undefined;
+
+            const finish = (response: ServerResponse<T> | Error) => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancelListener?.dispose();
+                if (response instanceof Error) {
+                    reject(response);
+                } else {
+                    resolve(response);
+                }
+            };
+
+            // The server stops working on the request; its late response is ignored
+            const abandon = (status: 'cancelled' | 'timedOut') => {
+                connection.cancel(id);
+                finish({ status });
+            };
+
+            if (timeoutSeconds > 0) {
+                timer = setTimeout(() => abandon('timedOut'), timeoutSeconds * 1000);
+            }
+            cancelListener = token?.onCancellationRequested(() => abandon('cancelled'));
+
+            result.then(
+                value => finish({ status: 'completed', result: value as T }),
+                error => finish(error)
+            );
+        });
+    }
+
+    /**
+     * Stop the server and forget which executables lacked server support,
+     * e.g. after the CLI was upgraded. It starts again on the next request.
+     */
+    restart(): void {
+        this.unsupported.clear();
+        this.crashes = [];
+        this.stop();
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    private async ensureStarted(executable: string): Promise<boolean> {
+        if (!vscode.workspace.getConfiguration('zenco').get<boolean>('serverMode', true) || this.unsupported.has(executable)) {
+            return false;
+        }
+
+        if (this.child && this.executable !== executable) {
+            this.stop();
+        }
+        if (this.child && !this.starting) {
+            return true;
+        }
+
+        this.starting = this.starting ?? this.start(executable).finally(() => (this.starting = undefined));
+        return this.starting;
+    }
+
+    private async start(executable: string): Promise<boolean> {
+        Logger.getInstance().info(`Starting Zenco server: "${executable}" serve --stdio`);
+
+        const child = spawn(executable, ['serve', '--stdio'], { env: process.env, windowsHide: true });
+        const connection = new JsonRpcConnection(child.stdout, child.stdin, text => Logger.getInstance().info('[zenco server] ' + text));
+        this.child = child;
+        this.connection = connection;
+        this.executable = executable;
+
+        // Writing to a process that just died fails; the exit handler deals with it
+        child.stdin.on('error', error => Logger.getInstance().warn('Zenco server stdin: ' + error.message));
+        child.stderr.on('data', (chunk: Buffer) => Logger.getInstance().info('[zenco server] ' + chunk.toString('utf8').trimEnd()));
+        child.on('error', error => this.onExit(child, `could not be started: ${error.message}`));
+        child.on('exit', code => this.onExit(child, `exited with code ${code}`));
+
+        let handshakeTimer: NodeJS.Timeout | undefined;
+        try {
+            const info = await Promise.race([
+                connection.request('initialize', { protocolVersion: PROTOCOL_VERSION, client: 'zenco-vscode' }).result,
+                new Promise<never>((_, reject) => {
+                    handshakeTimer = setTimeout(() => reject(new Error('no response to initialize')), HANDSHAKE_TIMEOUT_MS);
+                })
+            ]);
+            Logger.getInstance().info('Zenco server ready: ' + JSON.stringify(info));
+            return true;
+        } catch (error) {
+            // Older CLIs reject the unknown `serve` command and exit, or don't answer
+            Logger.getInstance().warn(
+                `"${executable}" does not support server mode (${error instanceof Error ? error.message : String(error)}), ` +
+                'using one-shot runs'
+            );
+            this.unsupported.add(executable);
+            this.stop();
+            return false;
+        } finally {
+            clearTimeout(handshakeTimer);
+        }
+    }
+
+    private stop(): void {
+        const child = this.child;
+        this.child = undefined;
+        this.executable = undefined;
+        child?.kill();
+        this.connection?.close(new Error('Zenco server was stopped'));
+        this.connection = undefined;
+    }
+
+    private onExit(child: ChildProcessWithoutNullStreams, reason: string): void {
+        if (child !== this.child) {
+            // Stopped on purpose
+            return;
+        }
+
+        Logger.getInstance().warn(`Zenco server ${reason}; it is restarted on the next run`);
+        this.child = undefined;
+        this.connection?.close(new Error(`Zenco server ${reason}`));
+        this.connection = undefined;
+
+        const now = Date.now();
+        this.crashes = [...this.crashes.filter(time => now - time < CRASH_WINDOW_MS), now];
+        if (this.crashes.length >= MAX_CRASHES && this.executable) {
+            Logger.getInstance().warn(`Zenco server crashed ${MAX_CRASHES} times in a minute, using one-shot runs`);
+            this.unsupported.add(this.executable);
+        }
+    }
+}